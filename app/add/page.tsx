@@ -5,6 +5,7 @@
  *
  * This page allows authenticated users to create new bowl records.
  * Bowls are automatically associated with the logged-in user.
+ * When offline, new bowls are queued in an IndexedDB outbox and synced later.
  */
 
 import type React from "react"
@@ -20,13 +21,16 @@ import { Textarea } from "@/components/ui/textarea"
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import { supabase, isSupabaseConfigured } from "@/lib/supabase"
+import { isSupabaseConfigured, type BowlStageName } from "@/lib/supabase"
+import { BOWL_STAGES, STAGE_COLORS, STAGE_LABELS } from "@/lib/stages"
 import { useToast } from "@/hooks/use-toast"
 import { SupabaseSetup } from "@/components/supabase-setup"
 import EnhancedImageUpload, { type ProcessedImageData } from "@/components/enhanced-image-upload"
-import { uploadImageSet } from "@/lib/storage"
+import { saveBowl, type NewBowlInput } from "@/lib/bowl-save"
+import { addToOutbox } from "@/lib/offline-outbox"
 import { processImage } from "@/lib/image-processing"
-import { cameraManager } from "@/lib/pwa-utils"
+import { readImageMetadata } from "@/lib/exif"
+import { cameraManager, networkManager } from "@/lib/pwa-utils"
 import { useAuth } from "@/components/auth/auth-provider"
 
 // Form data interface for type safety
@@ -62,6 +66,10 @@ export default function AddBowlPage() {
   const [finishes, setFinishes] = useState<string[]>([])
   const [newFinish, setNewFinish] = useState("") // Temporary state for adding new finish
 
+  // Lifecycle stage the bowl starts in - defaults to the first stage
+  const [stage, setStage] = useState<BowlStageName>("rough-turned")
+  const [stageNote, setStageNote] = useState("")
+
   // State for images with processing metadata
   const [images, setImages] = useState<ProcessedImageData[]>([])
 
@@ -230,6 +238,7 @@ export default function AddBowlPage() {
 
           // Process the image (resize and compress to multiple sizes)
           const processed = await processImage(file)
+          const metadata = await readImageMetadata(file)
 
           processedImages.push({
             id: `camera-${Date.now()}-${i}`,
@@ -237,6 +246,7 @@ export default function AddBowlPage() {
             processed,
             dimensions: { width: 1920, height: 1080 }, // Estimate for camera images
             fileSize: blob.size,
+            metadata,
             isNew: true,
           })
         }
@@ -276,6 +286,21 @@ export default function AddBowlPage() {
     saveFormDataToStorage(updatedFormData, finishes)
   }
 
+  /**
+   * Set the date made to the day the photos were taken, with persistence
+   */
+  const applyPhotoDate = (date: string) => {
+    const updatedFormData = { ...formData, dateMade: date }
+    setFormData(updatedFormData)
+    saveFormDataToStorage(updatedFormData, finishes)
+  }
+
+  // Earliest capture date among the photos' EXIF data, offered as the date made
+  const photoDate = images
+    .map((image) => image.metadata.capturedAt?.split("T")[0])
+    .filter((date): date is string => !!date)
+    .sort()[0]
+
   /**
    * Add a new finish to the finishes array with persistence
    * Prevents duplicates and trims whitespace
@@ -318,10 +343,10 @@ export default function AddBowlPage() {
    *
    * Process:
    * 1. Validate form data
-   * 2. Insert bowl record into database with user_id
-   * 3. Insert finishes into bowl_finishes table
-   * 4. Upload images to storage and insert records
-   * 5. Clear saved form data and navigate to bowl detail page on success
+   * 2. If offline, queue the bowl and its processed images in the IndexedDB outbox
+   * 3. Otherwise upload the images, then save the bowl, starting stage, finishes and image
+   *    records in one transaction (uploads are removed again if anything fails)
+   * 4. Clear saved form data and navigate to bowl detail page on success
    */
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -338,100 +363,37 @@ export default function AddBowlPage() {
     setLoading(true)
     setDebugInfo(null)
 
-    try {
-      if (!supabase) {
-        throw new Error("Supabase client not initialized")
-      }
+    const bowlInput: NewBowlInput = { ...formData, stage, stageNote, finishes }
+    const bowlImages = images.map(({ processed, fileSize, dimensions, metadata }) => ({
+      processed,
+      fileSize,
+      dimensions,
+      metadata,
+    }))
 
-      // Log the data we're about to insert for debugging
-      console.log("Inserting bowl with data:", {
-        wood_type: formData.woodType,
-        wood_source: formData.woodSource,
-        date_made: formData.dateMade,
-        comments: formData.comments || null,
-        user_id: user.id,
-      })
+    try {
+      // No connection - save to the outbox and let it sync in the background
+      if (!networkManager.getStatus()) {
+        await addToOutbox(user.id, bowlInput, bowlImages)
+        clearFormDataFromStorage()
 
-      // Step 1: Insert the main bowl record with user_id
-      const { data: bowlData, error: bowlError } = await supabase
-        .from("bowls")
-        .insert({
-          wood_type: formData.woodType,
-          wood_source: formData.woodSource,
-          date_made: formData.dateMade,
-          comments: formData.comments || null,
-          user_id: user.id,
+        toast({
+          title: "Saved Offline",
+          description: "Your bowl will be uploaded automatically when you're back online.",
         })
-        .select()
-
-      if (bowlError) {
-        throw new Error(`Failed to create bowl: ${bowlError.message}`)
-      }
-
-      if (!bowlData || bowlData.length === 0) {
-        throw new Error("No data returned from insert operation")
-      }
 
-      const bowlId = bowlData[0].id
-      console.log("Bowl created with ID:", bowlId)
-
-      // Step 2: Insert finishes if any were specified
-      if (finishes.length > 0) {
-        const finishesData = finishes.map((finish) => ({
-          bowl_id: bowlId,
-          finish_name: finish,
-        }))
-
-        console.log("Inserting finishes:", finishesData)
-        const { error: finishesError } = await supabase.from("bowl_finishes").insert(finishesData)
-
-        if (finishesError) {
-          console.error("Error adding finishes:", finishesError)
-          setDebugInfo((prev) => `${prev || ""}\nFinish error: ${finishesError.message}`)
-        }
+        router.push("/")
+        return
       }
 
-      // Step 3: Upload images and create image records
-      if (images.length > 0) {
-        for (let i = 0; i < images.length; i++) {
-          console.log(`Uploading image ${i + 1} of ${images.length}`)
-
-          // Upload image set (thumbnail, medium, full, original) to storage
-          const uploadResult = await uploadImageSet(images[i].processed, bowlId)
-
-          if (uploadResult) {
-            console.log("Image set uploaded:", uploadResult)
-
-            // Insert image record with all size variants
-            const { error: imageError } = await supabase.from("bowl_images").insert({
-              bowl_id: bowlId,
-              // Legacy fields for backward compatibility
-              image_url: uploadResult.medium.url,
-              storage_path: uploadResult.medium.path,
-              // New multi-size fields
-              thumbnail_url: uploadResult.thumbnail.url,
-              thumbnail_path: uploadResult.thumbnail.path,
-              medium_url: uploadResult.medium.url,
-              medium_path: uploadResult.medium.path,
-              full_url: uploadResult.full.url,
-              full_path: uploadResult.full.path,
-              original_url: uploadResult.original.url,
-              original_path: uploadResult.original.path,
-              file_size: images[i].fileSize,
-              original_dimensions: images[i].dimensions,
-              display_order: i, // First image (index 0) becomes primary
-            })
-
-            if (imageError) {
-              console.error("Error adding image record:", imageError)
-              setDebugInfo((prev) => `${prev || ""}\nImage error: ${imageError.message}`)
-            }
-          } else {
-            console.error("Image upload failed")
-            setDebugInfo((prev) => `${prev || ""}\nImage upload failed for image ${i + 1}`)
-          }
-        }
-      }
+      // Upload images into the new bowl's folder, then save everything in one transaction
+      const bowlId = crypto.randomUUID()
+      await saveBowl(bowlId, bowlInput, bowlImages, {
+        create: true,
+        onProgress: (uploaded, total) => {
+          if (uploaded < total) console.log(`Uploading image ${uploaded + 1} of ${total}`)
+        },
+      })
 
       // Success! Clear saved form data and show toast
       clearFormDataFromStorage()
@@ -583,6 +545,43 @@ export default function AddBowlPage() {
                   onChange={handleInputChange}
                   required
                 />
+                {photoDate && photoDate !== formData.dateMade && (
+                  <p className="mt-1 text-sm text-amber-700">
+                    Photos taken {new Date(`${photoDate}T00:00:00`).toLocaleDateString()}.{" "}
+                    <button
+                      type="button"
+                      className="underline hover:text-amber-900"
+                      onClick={() => applyPhotoDate(photoDate)}
+                      disabled={loading}
+                    >
+                      Use this date
+                    </button>
+                  </p>
+                )}
+              </div>
+
+              {/* Lifecycle stage - bowls can be recorded at any point in the process */}
+              <div>
+                <Label>Current Stage</Label>
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {BOWL_STAGES.map((stageOption) => (
+                    <button
+                      key={stageOption}
+                      type="button"
+                      onClick={() => setStage(stageOption)}
+                      className={`rounded-full border px-3 py-1 text-xs font-semibold transition-colors ${
+                        stage === stageOption ? STAGE_COLORS[stageOption] : "bg-white text-gray-500 hover:bg-gray-50"
+                      }`}
+                    >
+                      {STAGE_LABELS[stageOption]}
+                    </button>
+                  ))}
+                </div>
+                <Input
+                  value={stageNote}
+                  onChange={(e) => setStageNote(e.target.value)}
+                  placeholder="Stage note (optional), e.g. wall thickness, sealed end grain"
+                />
               </div>
 
               {/* Finishes section - dynamic array of finish names */}
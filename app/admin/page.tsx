@@ -0,0 +1,334 @@
+"use client"
+
+/**
+ * Admin Page Component - REQUIRES AUTHENTICATION
+ *
+ * Maintenance jobs for the signed-in user's collection:
+ * - Converts images uploaded before multi-size support (a single large file) into the
+ *   thumbnail, medium, full and original layout, with progress and a list of failures
+ * - Finds files in the image folders of the user's bowls that no image record points at,
+ *   as a dry-run report with a size summary, and deletes them on request. Folders of deleted
+ *   bowls are left to scripts/reconcile-storage.mjs, which runs with the service role key.
+ */
+
+import { useState, useEffect, useRef, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, Loader2, AlertCircle, CheckCircle, Images, Pause, HardDrive, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { isSupabaseConfigured } from "@/lib/supabase"
+import { countLegacyImages, migrateLegacyImages, type MigrationResult } from "@/lib/image-migration"
+import { collectOrphanedFiles, type StorageReport } from "@/lib/storage-gc"
+import { SupabaseSetup } from "@/components/supabase-setup"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth/auth-provider"
+
+const formatFileSize = (bytes: number) => {
+  if (!bytes) return "0 Bytes"
+  const k = 1024
+  const sizes = ["Bytes", "KB", "MB", "GB"]
+  const i = Math.min(sizes.length - 1, Math.floor(Math.log(bytes) / Math.log(k)))
+  return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
+}
+
+export default function AdminPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { user, loading: authLoading } = useAuth()
+  const [legacyCount, setLegacyCount] = useState<number | null>(null)
+  const [migrating, setMigrating] = useState(false)
+  const [progress, setProgress] = useState({ done: 0, total: 0, failed: 0 })
+  const [migrationResult, setMigrationResult] = useState<MigrationResult | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+  const [dryRun, setDryRun] = useState(true)
+  const [collecting, setCollecting] = useState(false)
+  const [collectStatus, setCollectStatus] = useState("")
+  const [storageReport, setStorageReport] = useState<StorageReport | null>(null)
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please sign in to manage your collection.",
+        variant: "destructive",
+      })
+      router.push("/")
+    }
+  }, [user, authLoading, router, toast])
+
+  const refreshLegacyCount = useCallback(async () => {
+    if (!user) return
+    setLegacyCount(await countLegacyImages(user.id))
+  }, [user])
+
+  useEffect(() => {
+    refreshLegacyCount()
+  }, [refreshLegacyCount])
+
+  // Stop a running migration when leaving the page; it resumes from the same point next time
+  useEffect(() => () => abortRef.current?.abort(), [])
+
+  /**
+   * Convert the remaining legacy images, one at a time
+   */
+  const handleMigrate = async () => {
+    if (!user) return
+
+    const controller = new AbortController()
+    abortRef.current = controller
+    setMigrating(true)
+    setMigrationResult(null)
+
+    try {
+      const result = await migrateLegacyImages(
+        user.id,
+        (done, total, failed) => setProgress({ done, total, failed }),
+        controller.signal,
+      )
+      setMigrationResult(result)
+      toast({
+        title: result.stopped ? "Migration Paused" : "Migration Complete",
+        description: `Converted ${result.migrated} images${result.failures.length > 0 ? `, ${result.failures.length} failed` : ""}.`,
+        variant: result.failures.length > 0 ? "destructive" : "default",
+      })
+    } catch (error) {
+      console.error("Error migrating images:", error)
+      toast({
+        title: "Migration Failed",
+        description: error instanceof Error ? error.message : "There was a problem converting your images.",
+        variant: "destructive",
+      })
+    } finally {
+      abortRef.current = null
+      setMigrating(false)
+      refreshLegacyCount()
+    }
+  }
+
+  /**
+   * Compare the user's bowl folders with their image records, deleting orphans unless this is a dry run
+   */
+  const handleCollect = async () => {
+    if (!user) return
+    if (!dryRun && !window.confirm("Permanently delete every orphaned file in your bowls' image folders?")) return
+
+    setCollecting(true)
+    setStorageReport(null)
+
+    try {
+      const report = await collectOrphanedFiles(user.id, dryRun, setCollectStatus)
+      setStorageReport(report)
+      if (!report.dryRun) {
+        toast({
+          title: "Storage Cleaned Up",
+          description: `Deleted ${report.deleted} of ${report.orphans.length} orphaned files.`,
+          variant: report.deleted < report.orphans.length ? "destructive" : "default",
+        })
+      }
+    } catch (error) {
+      console.error("Error checking storage:", error)
+      toast({
+        title: "Storage Check Failed",
+        description: error instanceof Error ? error.message : "There was a problem checking your image files.",
+        variant: "destructive",
+      })
+    } finally {
+      setCollecting(false)
+      setCollectStatus("")
+    }
+  }
+
+  if (!isSupabaseConfigured()) {
+    return <SupabaseSetup />
+  }
+
+  // Show loading while checking authentication
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  // Don't render if user is not authenticated
+  if (!user) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <Link href="/" className="inline-flex items-center text-amber-700 hover:text-amber-800">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Collection
+          </Link>
+        </div>
+
+        <div className="max-w-2xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold text-amber-900">Admin</h1>
+
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Convert Legacy Images</CardTitle>
+              <CardDescription>
+                Images uploaded before multi-size support only have one large file, which is also used for
+                thumbnails. This creates the thumbnail, medium, full and original sizes for them. You can pause at
+                any time and carry on later.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-amber-800">
+                {legacyCount === null
+                  ? "Counting legacy images..."
+                  : legacyCount === 0
+                    ? "All of your images already have every size."
+                    : `${legacyCount} images still need converting.`}
+              </p>
+
+              {migrating && progress.total > 0 && (
+                <div className="space-y-1">
+                  <Progress value={(progress.done / progress.total) * 100} />
+                  <p className="text-xs text-amber-700">
+                    Processed {progress.done} of {progress.total}
+                    {progress.failed > 0 && ` (${progress.failed} failed)`}
+                  </p>
+                </div>
+              )}
+
+              {migrationResult && migrationResult.failures.length > 0 && (
+                <Alert className="border-amber-200 bg-amber-50">
+                  <AlertCircle className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-amber-800">
+                    <p className="font-medium mb-1">Some images could not be converted:</p>
+                    <ul className="list-disc pl-4 text-sm">
+                      {migrationResult.failures.map((failure) => (
+                        <li key={failure.imageId}>
+                          <Link href={`/bowl/${failure.bowlId}`} className="underline">
+                            Image {failure.imageId.slice(0, 8)}
+                          </Link>
+                          : {failure.error}
+                        </li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {migrationResult && migrationResult.failures.length === 0 && !migrationResult.stopped && (
+                <Alert className="border-green-200 bg-green-50">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  <AlertDescription className="text-green-800">
+                    Converted {migrationResult.migrated} images.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {migrating ? (
+                <Button variant="outline" onClick={() => abortRef.current?.abort()}>
+                  <Pause className="w-4 h-4 mr-2" />
+                  Pause
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleMigrate}
+                  disabled={!legacyCount}
+                  className="bg-amber-600 hover:bg-amber-700"
+                >
+                  <Images className="w-4 h-4 mr-2" />
+                  {migrationResult?.stopped ? "Resume" : "Convert Images"}
+                </Button>
+              )}
+              {migrating && <Loader2 className="inline w-4 h-4 ml-3 animate-spin text-amber-600" />}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Clean Up Storage</CardTitle>
+              <CardDescription>
+                Failed uploads and interrupted edits can leave image files behind that no bowl uses. This lists the
+                image folders of your bowls and finds those files. Files from the last hour are ignored in case an
+                upload is still in progress. Folders of permanently deleted bowls are cleaned up by an administrator.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <label className="flex items-center gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={dryRun}
+                  onChange={(e) => setDryRun(e.target.checked)}
+                  disabled={collecting}
+                />
+                Dry run (report only, don&apos;t delete anything)
+              </label>
+
+              {collecting && collectStatus && <p className="text-xs text-amber-700">{collectStatus}</p>}
+
+              {storageReport && (
+                <Alert
+                  className={
+                    storageReport.orphans.length > 0 ? "border-amber-200 bg-amber-50" : "border-green-200 bg-green-50"
+                  }
+                >
+                  {storageReport.orphans.length > 0 ? (
+                    <AlertCircle className="h-4 w-4 text-amber-600" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                  )}
+                  <AlertDescription className="text-amber-800 space-y-1">
+                    <p>
+                      Your bowls&apos; folders hold {storageReport.totalFiles} files ({formatFileSize(storageReport.totalBytes)}).
+                    </p>
+                    <p className="font-medium">
+                      {storageReport.orphans.length} orphaned files ({formatFileSize(storageReport.orphanBytes)}).
+                    </p>
+                    {storageReport.recentSkipped > 0 && (
+                      <p className="text-sm">{storageReport.recentSkipped} recent unreferenced files were skipped.</p>
+                    )}
+                    {storageReport.dryRun ? (
+                      storageReport.orphans.length > 0 && (
+                        <p className="text-sm">Nothing was deleted. Untick dry run and run again to remove them.</p>
+                      )
+                    ) : (
+                      <p className="text-sm">Deleted {storageReport.deleted} files.</p>
+                    )}
+                    {storageReport.dryRun && storageReport.orphans.length > 0 && (
+                      <ul className="max-h-48 overflow-y-auto text-xs font-mono pt-1">
+                        {storageReport.orphans.map((file) => (
+                          <li key={file.path} className="truncate">
+                            {file.path} ({formatFileSize(file.size)})
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Button
+                onClick={handleCollect}
+                disabled={collecting}
+                variant={dryRun ? "outline" : "destructive"}
+              >
+                {collecting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : dryRun ? (
+                  <HardDrive className="w-4 h-4 mr-2" />
+                ) : (
+                  <Trash2 className="w-4 h-4 mr-2" />
+                )}
+                {collecting ? "Checking..." : dryRun ? "Find Orphaned Files" : "Delete Orphaned Files"}
+              </Button>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
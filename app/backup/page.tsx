@@ -0,0 +1,383 @@
+"use client"
+
+/**
+ * Backup Page Component - REQUIRES AUTHENTICATION
+ *
+ * Lets signed-in users download their whole collection as a ZIP archive
+ * (JSON manifest, CSV and original images) so their data exists outside Supabase,
+ * restore such an archive, and links to the spreadsheet importer and admin tools.
+ */
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, Download, Upload, Loader2, AlertCircle, FileSpreadsheet, CheckCircle, Wrench } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { isSupabaseConfigured } from "@/lib/supabase"
+import { exportCollection } from "@/lib/export"
+import {
+  DUPLICATE_STRATEGIES,
+  planRestore,
+  readRestoreArchive,
+  restoreCollection,
+  type DuplicateStrategy,
+  type RestoreArchive,
+  type RestorePlan,
+  type RestoreResult,
+} from "@/lib/restore"
+import { SupabaseSetup } from "@/components/supabase-setup"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth/auth-provider"
+
+export default function BackupPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { user, loading: authLoading } = useAuth()
+  const [exporting, setExporting] = useState(false)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+  const [exportWarnings, setExportWarnings] = useState<string[]>([])
+  const [archive, setArchive] = useState<RestoreArchive | null>(null)
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null)
+  const [strategy, setStrategy] = useState<DuplicateStrategy>("skip")
+  const [checkingArchive, setCheckingArchive] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [restoreProgress, setRestoreProgress] = useState({ done: 0, total: 0 })
+  const [restoreResult, setRestoreResult] = useState<RestoreResult | null>(null)
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please sign in to back up your collection.",
+        variant: "destructive",
+      })
+      router.push("/")
+    }
+  }, [user, authLoading, router, toast])
+
+  /**
+   * Build the archive and hand it to the browser as a download
+   */
+  const handleExport = async () => {
+    if (!user) return
+
+    setExporting(true)
+    setExportWarnings([])
+    setProgress({ done: 0, total: 0 })
+
+    try {
+      const result = await exportCollection(user.id, (done, total) => setProgress({ done, total }))
+
+      const url = URL.createObjectURL(result.blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = result.fileName
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+
+      setExportWarnings(result.warnings)
+      toast({
+        title: "Export Complete",
+        description: `Exported ${result.bowlCount} bowls and ${result.imageCount} images.`,
+      })
+    } catch (error) {
+      console.error("Error exporting collection:", error)
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : "There was a problem exporting your collection.",
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  /**
+   * Open an exported archive and check which of its bowls already exist
+   */
+  const handleArchiveChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file || !user) return
+
+    setCheckingArchive(true)
+    setArchive(null)
+    setRestorePlan(null)
+    setRestoreResult(null)
+
+    try {
+      const opened = await readRestoreArchive(file)
+      setRestorePlan(await planRestore(opened.manifest, user.id))
+      setArchive(opened)
+    } catch (error) {
+      console.error("Error reading archive:", error)
+      toast({
+        title: "Can't Read Archive",
+        description: error instanceof Error ? error.message : "That file is not a valid collection export.",
+        variant: "destructive",
+      })
+    } finally {
+      setCheckingArchive(false)
+    }
+  }
+
+  /**
+   * Recreate the archived bowls using the chosen duplicate strategy
+   */
+  const handleRestore = async () => {
+    if (!user || !archive || !restorePlan) return
+
+    setRestoring(true)
+
+    try {
+      const result = await restoreCollection(archive, restorePlan, strategy, (done, total) =>
+        setRestoreProgress({ done, total }),
+      )
+      setRestoreResult(result)
+      setArchive(null)
+      setRestorePlan(null)
+      toast({
+        title: "Restore Complete",
+        description: `Created ${result.created}, overwrote ${result.overwritten} and skipped ${result.skipped} bowls.`,
+      })
+    } catch (error) {
+      console.error("Error restoring collection:", error)
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "There was a problem restoring your collection.",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const duplicates = restorePlan ? [...restorePlan.duplicates.values()] : []
+
+  if (!isSupabaseConfigured()) {
+    return <SupabaseSetup />
+  }
+
+  // Show loading while checking authentication
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  // Don't render if user is not authenticated
+  if (!user) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <Link href="/" className="inline-flex items-center text-amber-700 hover:text-amber-800">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Collection
+          </Link>
+        </div>
+
+        <div className="max-w-2xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold text-amber-900">Backup &amp; Restore</h1>
+
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Export Collection</CardTitle>
+              <CardDescription>
+                Download every bowl you own as a ZIP archive. It contains a JSON manifest for restoring, a CSV you can
+                open in a spreadsheet, and the original image files.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {exporting && progress.total > 0 && (
+                <div className="space-y-1">
+                  <Progress value={(progress.done / progress.total) * 100} />
+                  <p className="text-xs text-amber-700">
+                    Downloading images: {progress.done} of {progress.total}
+                  </p>
+                </div>
+              )}
+
+              {exportWarnings.length > 0 && (
+                <Alert className="border-amber-200 bg-amber-50">
+                  <AlertCircle className="h-4 w-4 text-amber-600" />
+                  <AlertDescription className="text-amber-800">
+                    <p className="font-medium mb-1">Some images could not be included:</p>
+                    <ul className="list-disc pl-4 text-sm">
+                      {exportWarnings.map((warning, index) => (
+                        <li key={index}>{warning}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Button onClick={handleExport} disabled={exporting} className="bg-amber-600 hover:bg-amber-700">
+                {exporting ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Download className="w-4 h-4 mr-2" />
+                )}
+                {exporting ? "Exporting..." : "Export to ZIP"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Restore from Archive</CardTitle>
+              <CardDescription>
+                Recreate bowls from a ZIP made by the export above. Images are re-uploaded and resized again.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="restore-file">
+                  <span className="inline-flex items-center justify-center rounded-md border border-input bg-background px-4 py-2 text-sm font-medium cursor-pointer hover:bg-accent">
+                    {checkingArchive ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Upload className="w-4 h-4 mr-2" />
+                    )}
+                    Choose Archive
+                  </span>
+                </Label>
+                <Input
+                  id="restore-file"
+                  type="file"
+                  accept=".zip,application/zip"
+                  className="hidden"
+                  onChange={handleArchiveChange}
+                  disabled={checkingArchive || restoring}
+                />
+              </div>
+
+              {archive && restorePlan && (
+                <div className="space-y-4">
+                  <p className="text-sm text-amber-800">
+                    This archive has {archive.manifest.bowls.length} bowls, exported{" "}
+                    {new Date(archive.manifest.exported_at).toLocaleString()}.
+                  </p>
+
+                  {duplicates.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-sm text-amber-800">
+                        {duplicates.length} already exist in your collection (
+                        {duplicates.filter((duplicate) => duplicate.reason === "id").length} by ID,{" "}
+                        {duplicates.filter((duplicate) => duplicate.reason === "content").length} by wood type, source
+                        and date). What should happen to them?
+                      </p>
+                      {(Object.keys(DUPLICATE_STRATEGIES) as DuplicateStrategy[]).map((option) => (
+                        <label key={option} className="flex items-start gap-2 text-sm cursor-pointer">
+                          <input
+                            type="radio"
+                            name="duplicate-strategy"
+                            value={option}
+                            checked={strategy === option}
+                            onChange={() => setStrategy(option)}
+                            className="mt-1"
+                          />
+                          <span>
+                            <span className="font-medium text-amber-900">{DUPLICATE_STRATEGIES[option].label}</span>
+                            <span className="text-gray-600"> - {DUPLICATE_STRATEGIES[option].description}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+
+                  {restoring && restoreProgress.total > 0 && (
+                    <div className="space-y-1">
+                      <Progress value={(restoreProgress.done / restoreProgress.total) * 100} />
+                      <p className="text-xs text-amber-700">
+                        Restored {restoreProgress.done} of {restoreProgress.total}
+                      </p>
+                    </div>
+                  )}
+
+                  <Button onClick={handleRestore} disabled={restoring} className="bg-amber-600 hover:bg-amber-700">
+                    {restoring && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    {restoring ? "Restoring..." : "Restore Bowls"}
+                  </Button>
+                </div>
+              )}
+
+              {restoreResult && (
+                <Alert
+                  className={
+                    restoreResult.warnings.length > 0 ? "border-amber-200 bg-amber-50" : "border-green-200 bg-green-50"
+                  }
+                >
+                  {restoreResult.warnings.length > 0 ? (
+                    <AlertCircle className="h-4 w-4 text-amber-600" />
+                  ) : (
+                    <CheckCircle className="h-4 w-4 text-green-600" />
+                  )}
+                  <AlertDescription className="text-amber-800">
+                    <p className="font-medium">
+                      Created {restoreResult.created}, overwrote {restoreResult.overwritten} and skipped{" "}
+                      {restoreResult.skipped} bowls.
+                    </p>
+                    {restoreResult.warnings.length > 0 && (
+                      <ul className="list-disc pl-4 text-sm mt-1">
+                        {restoreResult.warnings.map((warning, index) => (
+                          <li key={index}>{warning}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Import from Spreadsheet</CardTitle>
+              <CardDescription>
+                Bring in bowl records kept in a spreadsheet. You can map columns and check every row before anything
+                is saved.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/import">
+                <Button variant="outline">
+                  <FileSpreadsheet className="w-4 h-4 mr-2" />
+                  Import CSV
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Maintenance</CardTitle>
+              <CardDescription>Convert images saved by older versions of the app and clean up unused image files.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Link href="/admin">
+                <Button variant="outline">
+                  <Wrench className="w-4 h-4 mr-2" />
+                  Open Admin
+                </Button>
+              </Link>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -7,12 +7,15 @@
  *
  * Features:
  * - Edit bowl metadata (wood type, source, date, finishes, comments)
- * - Upload new images with drag-and-drop support
+ * - Advance the bowl to its next lifecycle stage
+ * - Upload new images with drag-and-drop support (saved in all sizes, like the add page)
  * - Integrated camera capture with live preview
  * - Reorder images using drag-and-drop
  * - Delete individual images
  * - Image preview with editing controls
  * - Form validation and error handling
+ * - Conflict detection: saves only apply to the version that was loaded, and a merge
+ *   dialog resolves edits made elsewhere in the meantime
  */
 
 import type React from "react"
@@ -40,11 +43,30 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog"
-import { supabase, mapDatabaseBowlToFrontend, isSupabaseConfigured } from "@/lib/supabase"
-import { uploadImage, deleteImage } from "@/lib/storage"
+import {
+  supabase,
+  mapDatabaseBowlToFrontend,
+  isSupabaseConfigured,
+  getImageUrls,
+  type BowlStageName,
+} from "@/lib/supabase"
+import { base64ToBlob, getImageDimensions, processImage } from "@/lib/image-processing"
+import { readImageMetadata } from "@/lib/exif"
+import { BowlConflictError, saveBowl, type BowlImageEntry } from "@/lib/bowl-save"
+import {
+  fetchServerBowlVersion,
+  mergeBowlVersions,
+  type BowlVersion,
+  type MergeChoice,
+  type MergeField,
+  type ServerBowlVersion,
+} from "@/lib/bowl-conflict"
+import { getNextStage } from "@/lib/stages"
 import { useToast } from "@/hooks/use-toast"
 import { SupabaseSetup } from "@/components/supabase-setup"
 import { cameraManager } from "@/lib/pwa-utils"
+import StageAdvance from "@/components/stage-advance"
+import BowlMergeDialog from "@/components/bowl-merge-dialog"
 
 // Drag and drop imports for image reordering
 import {
@@ -75,6 +97,7 @@ interface Bowl {
   finishes: string[]
   comments: string
   images: string[]
+  stage: BowlStageName
   createdAt: string
 }
 
@@ -325,6 +348,10 @@ export default function EditBowlPage() {
   const [newFinish, setNewFinish] = useState("")
   const [images, setImages] = useState<ImageData[]>([])
 
+  // Pending stage transition, applied on save
+  const [advancingStage, setAdvancingStage] = useState(false)
+  const [stageNote, setStageNote] = useState("")
+
   // UI state
   const [loading, setLoading] = useState(false)
   const [bowl, setBowl] = useState<Bowl | null>(null)
@@ -332,6 +359,10 @@ export default function EditBowlPage() {
   const [uploadError, setUploadError] = useState<string | null>(null)
   const [supabaseConfigured, setSupabaseConfigured] = useState(false)
 
+  // Version the form is based on, and the two sides of a save conflict while it's being resolved
+  const [loadedUpdatedAt, setLoadedUpdatedAt] = useState<string | null>(null)
+  const [conflict, setConflict] = useState<{ mine: BowlVersion; theirs: ServerBowlVersion } | null>(null)
+
   // Image editing state
   const [selectedImageIndex, setSelectedImageIndex] = useState(0)
   const [savingOrder, setSavingOrder] = useState(false)
@@ -392,7 +423,12 @@ export default function EditBowlPage() {
         }
 
         // Fetch the bowl from Supabase
-        const { data, error } = await supabase.from("bowls").select("*").eq("id", params.id).single()
+        const { data, error } = await supabase
+          .from("bowls")
+          .select("*")
+          .eq("id", params.id)
+          .is("deleted_at", null)
+          .single()
 
         if (error || !data) {
           console.error("Error fetching bowl:", error)
@@ -403,6 +439,7 @@ export default function EditBowlPage() {
         // Map database bowl to frontend format
         const mappedBowl = await mapDatabaseBowlToFrontend(data, 'oldest-first')
         setBowl(mappedBowl)
+        setLoadedUpdatedAt(data.updated_at)
 
         // Set form data
         setFormData({
@@ -424,7 +461,7 @@ export default function EditBowlPage() {
         if (imageData) {
           setImages(
             imageData.map((img) => ({
-              url: img.image_url,
+              url: getImageUrls(img).medium,
               isNew: false,
               id: img.id,
               path: img.storage_path,
@@ -673,6 +710,80 @@ export default function EditBowlPage() {
     }
   }
 
+  /**
+   * Load the server's version of the bowl after a rejected save and open the merge dialog
+   */
+  const openConflict = async () => {
+    if (!bowl) return
+
+    const theirs = await fetchServerBowlVersion(bowl.id)
+    setLoading(false)
+
+    if (!theirs) {
+      setUploadError(
+        "This bowl was changed elsewhere and the latest version couldn't be loaded. It may have been moved to the trash.",
+      )
+      return
+    }
+
+    setConflict({
+      mine: {
+        ...formData,
+        finishes,
+        stage: bowl.stage,
+        images: images.map((image) => ({ id: image.isNew ? null : (image.id ?? null), url: image.url })),
+      },
+      theirs,
+    })
+    toast({
+      title: "Bowl Changed Elsewhere",
+      description: "Your changes were not saved. Choose how to combine them with the saved version.",
+      variant: "destructive",
+    })
+  }
+
+  /**
+   * Apply the merge choices to the form and rebase it on the server's version
+   */
+  const handleMerge = (choices: Partial<Record<MergeField, MergeChoice>>) => {
+    if (!conflict || !bowl) return
+
+    const { mine, theirs } = conflict
+    const merged = mergeBowlVersions(mine, theirs, choices)
+
+    setFormData({
+      woodType: merged.woodType,
+      woodSource: merged.woodSource,
+      dateMade: merged.dateMade,
+      comments: merged.comments,
+    })
+    setFinishes(merged.finishes)
+    setImages(
+      merged.images.map(
+        (image) =>
+          images.find((existing) => (image.id === null ? existing.url === image.url : existing.id === image.id)) ?? {
+            url: image.url,
+            isNew: false,
+            id: image.id ?? undefined,
+          },
+      ),
+    )
+    setSelectedImageIndex(0)
+
+    // A queued stage change only makes sense from the stage it was queued at
+    if (theirs.stage !== bowl.stage) {
+      setAdvancingStage(false)
+    }
+    setBowl({ ...bowl, stage: theirs.stage })
+    setLoadedUpdatedAt(theirs.updatedAt)
+    setConflict(null)
+
+    toast({
+      title: "Changes Combined",
+      description: "Review the form and save again.",
+    })
+  }
+
   /**
    * Handle form submission
    */
@@ -684,135 +795,57 @@ export default function EditBowlPage() {
     setUploadError(null)
 
     try {
-      // 1. Update the bowl record
-      const { error: bowlError } = await supabase
-        .from("bowls")
-        .update({
-          wood_type: formData.woodType,
-          wood_source: formData.woodSource,
-          date_made: formData.dateMade,
-          comments: formData.comments || null,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", bowl.id)
-
-      if (bowlError) {
-        throw new Error(`Failed to update bowl: ${bowlError.message}`)
-      }
-
-      // 2. Update finishes - delete all and re-add
-      await supabase.from("bowl_finishes").delete().eq("bowl_id", bowl.id)
-
-      if (finishes.length > 0) {
-        const finishesData = finishes.map((finish) => ({
-          bowl_id: bowl.id,
-          finish_name: finish,
-        }))
-
-        const { error: finishesError } = await supabase.from("bowl_finishes").insert(finishesData)
-        if (finishesError) {
-          console.error("Error updating finishes:", finishesError)
-          // Don't fail the whole operation for finishes
+      // 1. Resize new images (held as data URLs from the file input or camera) into all sizes
+      const imageEntries: BowlImageEntry[] = []
+      for (let i = 0; i < images.length; i++) {
+        const image = images[i]
+        if (!image.isNew) {
+          if (image.id) imageEntries.push({ id: image.id })
+          continue
         }
-      }
 
-      // 3. Handle images
-      // First, identify which existing images were removed
-      const existingImageIds = images.filter((img) => !img.isNew).map((img) => img.id)
-
-      // Get all image records for this bowl
-      const { data: currentImages } = await supabase
-        .from("bowl_images")
-        .select("id, storage_path")
-        .eq("bowl_id", bowl.id)
-
-      if (currentImages) {
-        // Find images to delete
-        const imagesToDelete = currentImages.filter((img) => !existingImageIds.includes(img.id))
-
-        // Delete from storage and database
-        for (const img of imagesToDelete) {
-          try {
-            await deleteImage(img.storage_path)
-            await supabase.from("bowl_images").delete().eq("id", img.id)
-          } catch (error) {
-            console.error("Error deleting image:", error)
-            // Continue with other operations
-          }
-        }
+        const blob = base64ToBlob(image.url)
+        const file = new File([blob], `image-${i + 1}.jpg`, { type: blob.type })
+        const [processed, dimensions, metadata] = await Promise.all([
+          processImage(file),
+          getImageDimensions(file),
+          readImageMetadata(file),
+        ])
+        imageEntries.push({ processed, fileSize: file.size, dimensions, metadata })
       }
 
-      // Upload new images with error handling
-      const newImages = images.filter((img) => img.isNew)
-      let uploadErrors = 0
-      let uploadedCount = 0
-
-      for (let i = 0; i < newImages.length; i++) {
-        try {
-          console.log(`Uploading image ${i + 1} of ${newImages.length}`)
-          const uploadResult = await uploadImage(newImages[i].url, bowl.id)
-
-          if (uploadResult) {
-            const { error: imageError } = await supabase.from("bowl_images").insert({
-              bowl_id: bowl.id,
-              image_url: uploadResult.url,
-              storage_path: uploadResult.path,
-              display_order: i + (images.length - newImages.length),
-            })
-
-            if (imageError) {
-              console.error("Error adding image record:", imageError)
-              uploadErrors++
-            } else {
-              uploadedCount++
-            }
-          } else {
-            console.error(`Failed to upload image ${i + 1}`)
-            uploadErrors++
-            setUploadError(`Image ${i + 1} failed to upload. This may be due to storage permissions.`)
-          }
-        } catch (error) {
-          console.error("Error uploading image:", error)
-          uploadErrors++
-          setUploadError(`Failed to upload image ${i + 1}: ${error instanceof Error ? error.message : "Unknown error"}`)
-        }
-      }
-
-      // Update display order for all remaining images
-      const nonNewImages = images.filter((img) => !img.isNew)
-      for (let i = 0; i < nonNewImages.length; i++) {
-        if (nonNewImages[i].id) {
-          try {
-            await supabase.from("bowl_images").update({ display_order: i }).eq("id", nonNewImages[i].id)
-          } catch (error) {
-            console.error("Error updating image order:", error)
-            // Non-critical error, continue
-          }
-        }
-      }
+      // 2. Upload them and save fields, the queued stage transition, finishes and image order in one
+      //    transaction; removed images are deleted, and nothing is kept if any step fails
+      const nextStage = getNextStage(bowl.stage)
+      await saveBowl(
+        bowl.id,
+        {
+          ...formData,
+          finishes,
+          stage: advancingStage && nextStage ? nextStage : undefined,
+          stageNote,
+        },
+        imageEntries,
+        {
+          expectedUpdatedAt: loadedUpdatedAt ?? undefined,
+          onProgress: (uploaded, total) => {
+            if (uploaded < total) console.log(`Uploading image ${uploaded + 1} of ${total}`)
+          },
+        },
+      )
 
-      // Show appropriate success/error messages
-      if (uploadErrors > 0 && uploadedCount > 0) {
-        toast({
-          title: "Partial Success",
-          description: `Bowl updated. ${uploadedCount} image(s) uploaded, ${uploadErrors} failed. Check storage permissions.`,
-          variant: "destructive",
-        })
-      } else if (uploadErrors > 0) {
-        toast({
-          title: "Upload Issues",
-          description: `Bowl updated, but ${uploadErrors} image(s) failed to upload. Check storage configuration.`,
-          variant: "destructive",
-        })
-      } else {
-        toast({
-          title: "Bowl Updated",
-          description: "Your bowl has been successfully updated.",
-        })
-      }
+      toast({
+        title: "Bowl Updated",
+        description: "Your bowl has been successfully updated.",
+      })
 
       router.push(`/bowl/${bowl.id}`)
     } catch (error) {
+      if (error instanceof BowlConflictError) {
+        await openConflict()
+        return
+      }
+
       console.error("Error updating bowl:", error)
       const errorMessage = error instanceof Error ? error.message : "Unknown error"
       setUploadError(errorMessage)
@@ -1068,6 +1101,15 @@ export default function EditBowlPage() {
                     />
                   </div>
 
+                  <StageAdvance
+                    currentStage={bowl.stage}
+                    advancing={advancingStage}
+                    note={stageNote}
+                    onAdvancingChange={setAdvancingStage}
+                    onNoteChange={setStageNote}
+                    disabled={loading}
+                  />
+
                   <div>
                     <Label>Finishes Used</Label>
                     <div className="flex gap-2 mb-2">
@@ -1119,6 +1161,18 @@ export default function EditBowlPage() {
           </div>
         </div>
 
+        {/* Save Conflict Dialog */}
+        {conflict && (
+          <BowlMergeDialog
+            open
+            mine={conflict.mine}
+            theirs={conflict.theirs}
+            stageDropped={advancingStage && conflict.theirs.stage !== bowl.stage}
+            onCancel={() => setConflict(null)}
+            onMerge={handleMerge}
+          />
+        )}
+
         {/* Delete Image Dialog */}
         <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
           <AlertDialogContent>
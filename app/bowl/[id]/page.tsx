@@ -11,23 +11,45 @@
  * - Show bowl metadata (wood type, source, date, finishes, comments)
  * - Image viewer for full-screen viewing
  * - QR code generation and sharing
+ * - Lifecycle stage timeline (rough-turned through sold)
+ * - Revision history with field-level changes; owners can restore earlier versions
+ * - Drying log with weight/moisture chart
  * - Navigation to edit page for modifications (only for bowl owners)
  */
 
 import { useState, useEffect, useCallback } from "react"
 import { useParams, useRouter } from 'next/navigation'
 import Link from "next/link"
-import Image from "next/image"
-import { ArrowLeft, Edit, Trash2, Calendar, MapPin, QrCode, Download, ImageIcon, Star, User } from 'lucide-react'
+import { ArrowLeft, Edit, Trash2, Calendar, MapPin, QrCode, Printer, FileText, ImageIcon, Star, User } from 'lucide-react'
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
-import { supabase, mapDatabaseBowlToFrontend, isSupabaseConfigured } from "@/lib/supabase"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import {
+  supabase,
+  mapDatabaseBowlToFrontend,
+  isSupabaseConfigured,
+  type BowlStage,
+  type BowlStageName,
+  type StoredImageVariant,
+} from "@/lib/supabase"
+import { getBowlStageHistory } from "@/lib/stages"
 import { SupabaseSetup } from "@/components/supabase-setup"
 import { useToast } from "@/hooks/use-toast"
 import ImageViewer from "@/components/image-viewer"
+import BowlPicture from "@/components/bowl-picture"
 import { useAuth } from "@/components/auth/auth-provider"
+import { StageBadge } from "@/components/stage-badge"
+import StageTimeline from "@/components/stage-timeline"
+import BowlHistory from "@/components/bowl-history"
+import DryingTracker from "@/components/drying-tracker"
+import BowlQRCode from "@/components/bowl-qr-code"
+import { generateSpecSheet } from "@/lib/spec-sheet"
+import { OfflineNotice } from "@/components/offline-notice"
+import { getLastSyncedAt, getReplicaBowl } from "@/lib/offline-replica"
+import { networkManager } from "@/lib/pwa-utils"
+import { TRASH_RETENTION_DAYS, moveBowlToTrash } from "@/lib/trash"
 
 // Type definitions for bowl data structure
 interface BowlImage {
@@ -38,6 +60,7 @@ interface BowlImage {
   original: string
   dimensions?: { width: number; height: number }
   fileSize?: number
+  variants?: StoredImageVariant[]
 }
 
 interface Bowl {
@@ -48,6 +71,8 @@ interface Bowl {
   finishes: string[]
   comments: string
   images: BowlImage[]
+  stage?: BowlStageName
+  driedAt?: string | null
   createdAt: string
   userId?: string | null
   createdBy?: string
@@ -68,6 +93,11 @@ export default function BowlDetailPage() {
   const [deleting, setDeleting] = useState(false)
   const [supabaseConfigured, setSupabaseConfigured] = useState(true)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
+  const [stageHistory, setStageHistory] = useState<BowlStage[]>([])
+  const [replicaSyncedAt, setReplicaSyncedAt] = useState<string | null>(null)
+  const [generatingSheet, setGeneratingSheet] = useState(false)
+  // Bumped to reload the bowl after restoring an earlier version
+  const [reloadKey, setReloadKey] = useState(0)
 
   // Check if current user can edit this bowl
   const canEdit = user && bowl && bowl.userId === user.id
@@ -79,17 +109,39 @@ export default function BowlDetailPage() {
 
   // Fetch bowl data from database
   useEffect(() => {
+    // Read the bowl from the offline replica; returns false if it was never synced to this device
+    async function loadFromReplica() {
+      const replicaBowl = await getReplicaBowl(params.id as string)
+      const lastSyncedAt = await getLastSyncedAt()
+      if (!replicaBowl || !lastSyncedAt) return false
+
+      setBowl(replicaBowl)
+      setReplicaSyncedAt(lastSyncedAt)
+      return true
+    }
+
     async function fetchBowl() {
       try {
+        if (!networkManager.getStatus() && (await loadFromReplica())) {
+          return
+        }
+
         if (!supabase) {
           throw new Error("Supabase client not initialized")
         }
 
         // Fetch the bowl from Supabase database
-        const { data, error } = await supabase.from("bowls").select("*").eq("id", params.id).single()
+        const { data, error } = await supabase
+          .from("bowls")
+          .select("*")
+          .eq("id", params.id)
+          .is("deleted_at", null)
+          .single()
 
         if (error) {
           console.error("Error fetching bowl:", error)
+          // The network may be unreachable even though the browser reports it online
+          await loadFromReplica()
           setLoading(false)
           return
         }
@@ -97,8 +149,12 @@ export default function BowlDetailPage() {
         // Transform database bowl to frontend format
         const mappedBowl = await mapDatabaseBowlToFrontend(data, 'oldest-first')
         setBowl(mappedBowl)
+
+        // Load the lifecycle stage history for the timeline
+        setStageHistory(await getBowlStageHistory(data.id))
       } catch (error) {
         console.error("Error in fetchBowl:", error)
+        await loadFromReplica()
       } finally {
         setLoading(false)
       }
@@ -106,14 +162,14 @@ export default function BowlDetailPage() {
 
     fetchBowl()
 
-    // Generate QR code URL for sharing
+    // The QR code encodes this page's URL (generated locally, see components/bowl-qr-code.tsx)
     const currentUrl = typeof window !== "undefined" ? window.location.href : ""
-    setQrCodeUrl(`https://api.qrserver.com/v1/create-qr-code/?size=200x200&data=${encodeURIComponent(currentUrl)}`)
-  }, [params.id])
+    setQrCodeUrl(currentUrl)
+  }, [params.id, reloadKey])
 
   /**
    * Handle bowl deletion
-   * Removes bowl and all associated images from database and storage
+   * Moves the bowl to the owner's trash; it is purged with its images after the retention period
    */
   const handleDelete = useCallback(async () => {
     if (!bowl) {
@@ -143,22 +199,11 @@ export default function BowlDetailPage() {
     setDeleting(true)
 
     try {
-      console.log("Starting deletion process for bowl:", bowl.id)
+      await moveBowlToTrash(bowl.id)
 
-      // Delete bowl record first (cascade will delete finishes and image records)
-      const { error: deleteError } = await supabase.from("bowls").delete().eq("id", bowl.id)
-
-      if (deleteError) {
-        console.error("Error deleting bowl from database:", deleteError)
-        throw new Error(`Database error: ${deleteError.message}`)
-      }
-
-      console.log("Bowl deleted successfully from database")
-
-      // Show success message
       toast({
-        title: "Bowl Deleted",
-        description: "The bowl has been successfully removed from your collection.",
+        title: "Bowl Moved to Trash",
+        description: `You can restore it from the trash for ${TRASH_RETENTION_DAYS} days.`,
       })
 
       // Navigate back to home page
@@ -177,13 +222,31 @@ export default function BowlDetailPage() {
   }, [bowl, router, toast, canEdit])
 
   /**
-   * Download QR code as PNG file
+   * Generate the one-page PDF spec sheet and download it
    */
-  const downloadQRCode = () => {
-    const link = document.createElement("a")
-    link.href = qrCodeUrl
-    link.download = `bowl-${bowl?.woodType}-qr.png`
-    link.click()
+  const downloadSpecSheet = async () => {
+    if (!bowl) return
+
+    setGeneratingSheet(true)
+
+    try {
+      const blob = await generateSpecSheet({ ...bowl, heroImage: bowl.images[0]?.full }, qrCodeUrl)
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `bowl-${bowl.woodType}-spec-sheet.pdf`
+      link.click()
+      setTimeout(() => URL.revokeObjectURL(url), 1000)
+    } catch (error) {
+      console.error("Error generating spec sheet:", error)
+      toast({
+        title: "Error",
+        description: "There was a problem generating the spec sheet. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setGeneratingSheet(false)
+    }
   }
 
   /**
@@ -236,7 +299,7 @@ export default function BowlDetailPage() {
             Back to Collection
           </Link>
           <div className="flex gap-2">
-            {/* QR Code button - kept intact */}
+            {/* QR Code button - encoded locally so it works offline */}
             <Dialog>
               <DialogTrigger asChild>
                 <Button variant="outline" size="sm">
@@ -248,24 +311,24 @@ export default function BowlDetailPage() {
                 <DialogHeader>
                   <DialogTitle>QR Code for this Bowl</DialogTitle>
                 </DialogHeader>
-                <div className="flex flex-col items-center space-y-4">
-                  <Image
-                    src={qrCodeUrl || "/placeholder.svg?height=200&width=200"}
-                    alt="QR Code"
-                    width={200}
-                    height={200}
-                    className="border rounded-lg"
-                  />
-                  <Button onClick={downloadQRCode} className="w-full">
-                    <Download className="w-4 h-4 mr-2" />
-                    Download QR Code
-                  </Button>
-                </div>
+                <BowlQRCode value={qrCodeUrl} fileName={`bowl-${bowl.woodType}-qr`} />
               </DialogContent>
             </Dialog>
+            <Button variant="outline" size="sm" onClick={downloadSpecSheet} disabled={generatingSheet}>
+              <FileText className="w-4 h-4 mr-2" />
+              {generatingSheet ? "Generating..." : "Spec Sheet"}
+            </Button>
+            <Link href={`/labels?ids=${bowl.id}`}>
+              <Button variant="outline" size="sm">
+                <Printer className="w-4 h-4 mr-2" />
+                Label
+              </Button>
+            </Link>
           </div>
         </div>
 
+        {replicaSyncedAt && <OfflineNotice lastSyncedAt={replicaSyncedAt} />}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left column - Images */}
           <div className="lg:col-span-2">
@@ -275,7 +338,9 @@ export default function BowlDetailPage() {
                 <Card className="bg-white/80 backdrop-blur-sm">
                   <CardContent className="p-4">
                     <div className="relative group cursor-pointer" onClick={() => openImageViewer(selectedImageIndex)}>
-                      <Image
+                      <BowlPicture
+                        variants={bowl.images[selectedImageIndex]?.variants}
+                        size="medium"
                         src={bowl.images[selectedImageIndex]?.medium || "/placeholder.svg?height=600&width=800"}
                         alt={`${bowl.woodType} bowl - Image ${selectedImageIndex + 1}`}
                         width={800}
@@ -318,7 +383,9 @@ export default function BowlDetailPage() {
                             selectedImageIndex === index ? "ring-2 ring-amber-500" : "hover:ring-2 hover:ring-amber-300"
                           }`}
                         >
-                          <Image
+                          <BowlPicture
+                            variants={image.variants}
+                            size="thumbnail"
                             src={image.thumbnail || "/placeholder.svg?height=75&width=100"}
                             alt={`Thumbnail ${index + 1}`}
                             fill
@@ -368,7 +435,10 @@ export default function BowlDetailPage() {
           <div className="space-y-6">
             <Card className="bg-white/80 backdrop-blur-sm">
               <CardHeader className="flex flex-row items-center justify-between">
-                <CardTitle className="text-2xl text-amber-900">{bowl.woodType}</CardTitle>
+                <div className="flex items-center gap-3">
+                  <CardTitle className="text-2xl text-amber-900">{bowl.woodType}</CardTitle>
+                  {bowl.stage && <StageBadge stage={bowl.stage} />}
+                </div>
                 {canEdit && (
                   <div className="flex gap-2">
                     <Link href={`/bowl/${bowl.id}/edit`}>
@@ -439,6 +509,47 @@ export default function BowlDetailPage() {
                 </div>
               </CardContent>
             </Card>
+
+            {/* Lifecycle stage timeline and revision history */}
+            <Card className="bg-white/80 backdrop-blur-sm">
+              <Tabs defaultValue="stages">
+                <CardHeader>
+                  <TabsList className="w-full">
+                    <TabsTrigger value="stages" className="flex-1">
+                      Stage History
+                    </TabsTrigger>
+                    <TabsTrigger value="history" className="flex-1">
+                      History
+                    </TabsTrigger>
+                  </TabsList>
+                </CardHeader>
+                <CardContent>
+                  <TabsContent value="stages" className="mt-0">
+                    <StageTimeline history={stageHistory} />
+                  </TabsContent>
+                  <TabsContent value="history" className="mt-0">
+                    {replicaSyncedAt ? (
+                      <p className="text-sm text-amber-700">History is not available offline.</p>
+                    ) : (
+                      <BowlHistory
+                        bowlId={bowl.id}
+                        canRestore={!!canEdit}
+                        refreshKey={reloadKey}
+                        onRestored={() => setReloadKey((key) => key + 1)}
+                      />
+                    )}
+                  </TabsContent>
+                </CardContent>
+              </Tabs>
+            </Card>
+
+            {/* Drying measurements and curve */}
+            <DryingTracker
+              bowlId={bowl.id}
+              canEdit={!!canEdit}
+              driedAt={bowl.driedAt ?? null}
+              onDryStatusChange={(driedAt) => setBowl({ ...bowl, driedAt })}
+            />
           </div>
         </div>
 
@@ -459,8 +570,8 @@ export default function BowlDetailPage() {
               </DialogHeader>
               <div className="py-4">
                 <p className="text-gray-700">
-                  Are you sure you want to delete this bowl? This action cannot be undone and will remove all associated
-                  images and data.
+                  Are you sure you want to delete this bowl? It will be moved to the trash, where you can restore it for{" "}
+                  {TRASH_RETENTION_DAYS} days before it and its images are permanently removed.
                 </p>
               </div>
               <div className="flex justify-end gap-2">
@@ -0,0 +1,388 @@
+"use client"
+
+/**
+ * Import Page Component - REQUIRES AUTHENTICATION
+ *
+ * Step-by-step wizard for bringing bowl records in from a spreadsheet:
+ * upload a CSV, map its columns to bowl fields, review a dry-run report, then bulk-import.
+ */
+
+import type React from "react"
+
+import { useState, useEffect, useMemo } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, Upload, FileSpreadsheet, Loader2, AlertCircle, CheckCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
+import { Progress } from "@/components/ui/progress"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { isSupabaseConfigured } from "@/lib/supabase"
+import { parseCsv } from "@/lib/csv"
+import {
+  IMPORT_FIELDS,
+  guessColumnMapping,
+  importBowls,
+  validateImportRows,
+  type ColumnMapping,
+  type ImportField,
+} from "@/lib/bowl-import"
+import { SupabaseSetup } from "@/components/supabase-setup"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth/auth-provider"
+
+type WizardStep = "upload" | "map" | "review"
+
+// Number of rows shown in the preview tables
+const PREVIEW_ROWS = 5
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+export default function ImportPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { user, loading: authLoading } = useAuth()
+
+  const [step, setStep] = useState<WizardStep>("upload")
+  const [fileName, setFileName] = useState("")
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [finishDelimiter, setFinishDelimiter] = useState(";")
+  const [importing, setImporting] = useState(false)
+  const [progress, setProgress] = useState({ done: 0, total: 0 })
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please sign in to import bowls.",
+        variant: "destructive",
+      })
+      router.push("/")
+    }
+  }, [user, authLoading, router, toast])
+
+  // Dry run of the current mapping - recomputed whenever the mapping changes
+  const validation = useMemo(
+    () => (mapping ? validateImportRows(dataRows, mapping, finishDelimiter) : null),
+    [dataRows, mapping, finishDelimiter],
+  )
+
+  const missingRequired = mapping
+    ? (Object.keys(IMPORT_FIELDS) as ImportField[]).filter(
+        (field) => IMPORT_FIELDS[field].required && mapping[field] === null,
+      )
+    : []
+
+  /**
+   * Read the chosen CSV and guess a column mapping from its header row
+   */
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    if (!file) return
+
+    try {
+      const rows = parseCsv(await file.text())
+
+      if (rows.length < 2) {
+        toast({
+          title: "Nothing to Import",
+          description: "The file needs a header row and at least one row of data.",
+          variant: "destructive",
+        })
+        return
+      }
+
+      setFileName(file.name)
+      setHeaders(rows[0].map((header) => header.trim()))
+      setDataRows(rows.slice(1))
+      setMapping(guessColumnMapping(rows[0]))
+      setStep("map")
+    } catch (error) {
+      console.error("Error reading CSV:", error)
+      toast({
+        title: "Error",
+        description: "Could not read that file. Please choose a CSV file.",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const updateMapping = (field: ImportField, value: string) => {
+    if (!mapping) return
+    setMapping({ ...mapping, [field]: value === "" ? null : Number(value) })
+  }
+
+  /**
+   * Insert every valid row; rows with errors are left out
+   */
+  const handleImport = async () => {
+    if (!user || !validation || validation.rows.length === 0) return
+
+    setImporting(true)
+
+    try {
+      const imported = await importBowls(validation.rows, (done, total) => setProgress({ done, total }))
+
+      toast({
+        title: "Import Complete",
+        description: `Imported ${imported} bowls.`,
+      })
+      router.push("/")
+    } catch (error) {
+      console.error("Error importing bowls:", error)
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "There was a problem importing your bowls.",
+        variant: "destructive",
+      })
+      setImporting(false)
+    }
+  }
+
+  if (!isSupabaseConfigured()) {
+    return <SupabaseSetup />
+  }
+
+  // Show loading while checking authentication
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  // Don't render if user is not authenticated
+  if (!user) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <Link href="/backup" className="inline-flex items-center text-amber-700 hover:text-amber-800">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Backup
+          </Link>
+        </div>
+
+        <div className="max-w-4xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold text-amber-900">Import from Spreadsheet</h1>
+
+          {/* Step 1: choose a file */}
+          {step === "upload" && (
+            <Card className="bg-white/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-amber-900">Choose a CSV File</CardTitle>
+                <CardDescription>
+                  Export your spreadsheet as CSV. The first row should contain column headings.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Label
+                  htmlFor="csv-file"
+                  className="flex flex-col items-center justify-center border-2 border-dashed border-amber-300 rounded-lg p-8 cursor-pointer hover:bg-amber-50"
+                >
+                  <Upload className="w-8 h-8 text-amber-500 mb-2" />
+                  <span className="text-amber-800">Click to choose a file</span>
+                </Label>
+                <Input id="csv-file" type="file" accept=".csv,text/csv" className="hidden" onChange={handleFileChange} />
+              </CardContent>
+            </Card>
+          )}
+
+          {/* Step 2: map columns */}
+          {step === "map" && mapping && (
+            <Card className="bg-white/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-amber-900 flex items-center gap-2">
+                  <FileSpreadsheet className="w-5 h-5" />
+                  Map Columns
+                </CardTitle>
+                <CardDescription>
+                  {fileName} · {dataRows.length} rows. Choose which column holds each bowl field.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+                    <div key={field}>
+                      <Label htmlFor={`map-${field}`} className="text-amber-800">
+                        {IMPORT_FIELDS[field].label}
+                        {IMPORT_FIELDS[field].required && " *"}
+                      </Label>
+                      <select
+                        id={`map-${field}`}
+                        value={mapping[field] ?? ""}
+                        onChange={(e) => updateMapping(field, e.target.value)}
+                        className={selectClassName}
+                      >
+                        <option value="">(not imported)</option>
+                        {headers.map((header, index) => (
+                          <option key={index} value={index}>
+                            {header || `Column ${index + 1}`}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <div>
+                    <Label htmlFor="finish-delimiter" className="text-amber-800">
+                      Finishes separated by
+                    </Label>
+                    <Input
+                      id="finish-delimiter"
+                      value={finishDelimiter}
+                      onChange={(e) => setFinishDelimiter(e.target.value)}
+                      maxLength={3}
+                    />
+                  </div>
+                </div>
+
+                {/* Raw preview of the first few rows */}
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm border">
+                    <thead className="bg-amber-50">
+                      <tr>
+                        {headers.map((header, index) => (
+                          <th key={index} className="px-2 py-1 text-left font-medium text-amber-900 border">
+                            {header || `Column ${index + 1}`}
+                          </th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {dataRows.slice(0, PREVIEW_ROWS).map((row, rowIndex) => (
+                        <tr key={rowIndex}>
+                          {headers.map((_, index) => (
+                            <td key={index} className="px-2 py-1 border text-gray-700 max-w-[200px] truncate">
+                              {row[index]}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {missingRequired.length > 0 && (
+                  <p className="text-sm text-red-600">
+                    Map a column for: {missingRequired.map((field) => IMPORT_FIELDS[field].label).join(", ")}
+                  </p>
+                )}
+              </CardContent>
+              <CardFooter className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep("upload")}>
+                  Choose Another File
+                </Button>
+                <Button
+                  onClick={() => setStep("review")}
+                  disabled={missingRequired.length > 0}
+                  className="bg-amber-600 hover:bg-amber-700"
+                >
+                  Check Rows
+                </Button>
+              </CardFooter>
+            </Card>
+          )}
+
+          {/* Step 3: dry-run report and import */}
+          {step === "review" && validation && (
+            <Card className="bg-white/80 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-amber-900">Dry Run</CardTitle>
+                <CardDescription>Nothing has been saved yet.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Alert className="border-green-200 bg-green-50">
+                  <CheckCircle className="h-4 w-4 text-green-600" />
+                  <AlertDescription className="text-green-800">
+                    {validation.rows.length} of {dataRows.length} rows are ready to import.
+                  </AlertDescription>
+                </Alert>
+
+                {validation.errors.length > 0 && (
+                  <Alert className="border-red-200 bg-red-50">
+                    <AlertCircle className="h-4 w-4 text-red-600" />
+                    <AlertDescription className="text-red-800">
+                      <p className="font-medium mb-1">
+                        {new Set(validation.errors.map((error) => error.line)).size} rows have errors and will be
+                        skipped:
+                      </p>
+                      <ul className="list-disc pl-4 text-sm max-h-48 overflow-y-auto">
+                        {validation.errors.map((error, index) => (
+                          <li key={index}>
+                            Line {error.line}: {error.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                {/* Preview of how the first rows will be saved */}
+                {validation.rows.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm border">
+                      <thead className="bg-amber-50">
+                        <tr>
+                          <th className="px-2 py-1 text-left font-medium text-amber-900 border">Line</th>
+                          {(Object.keys(IMPORT_FIELDS) as ImportField[]).map((field) => (
+                            <th key={field} className="px-2 py-1 text-left font-medium text-amber-900 border">
+                              {IMPORT_FIELDS[field].label}
+                            </th>
+                          ))}
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {validation.rows.slice(0, PREVIEW_ROWS).map((row) => (
+                          <tr key={row.line}>
+                            <td className="px-2 py-1 border text-gray-500">{row.line}</td>
+                            <td className="px-2 py-1 border">{row.wood_type}</td>
+                            <td className="px-2 py-1 border">{row.wood_source}</td>
+                            <td className="px-2 py-1 border">{row.date_made}</td>
+                            <td className="px-2 py-1 border max-w-[200px] truncate">{row.comments}</td>
+                            <td className="px-2 py-1 border">{row.finishes.join(", ")}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                {importing && progress.total > 0 && (
+                  <div className="space-y-1">
+                    <Progress value={(progress.done / progress.total) * 100} />
+                    <p className="text-xs text-amber-700">
+                      Imported {progress.done} of {progress.total}
+                    </p>
+                  </div>
+                )}
+              </CardContent>
+              <CardFooter className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep("map")} disabled={importing}>
+                  Back to Mapping
+                </Button>
+                <Button
+                  onClick={handleImport}
+                  disabled={importing || validation.rows.length === 0}
+                  className="bg-amber-600 hover:bg-amber-700"
+                >
+                  {importing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Import {validation.rows.length} Bowls
+                </Button>
+              </CardFooter>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,322 @@
+"use client"
+
+/**
+ * Label Printing Page Component
+ *
+ * Lays out tags for the selected bowls onto label sheets (Avery presets or a custom grid)
+ * and prints them straight from the browser using print CSS.
+ * Bowls can be preselected with ?ids=<id>,<id>.
+ */
+
+import { useState, useEffect, useMemo } from "react"
+import { useSearchParams } from "next/navigation"
+import Link from "next/link"
+import Image from "next/image"
+import { ArrowLeft, Printer } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { supabase, isSupabaseConfigured } from "@/lib/supabase"
+import {
+  DEFAULT_LABEL_SHEET,
+  LABEL_SHEETS,
+  paginateLabels,
+  shortBowlId,
+  validateLabelSheet,
+  type LabelSheet,
+  type LabelSheetId,
+} from "@/lib/labels"
+import { encodeQR, qrToSvgDataUrl } from "@/lib/qr-code"
+import { SupabaseSetup } from "@/components/supabase-setup"
+import { useAuth } from "@/components/auth/auth-provider"
+
+interface LabelBowl {
+  id: string
+  wood_type: string
+  date_made: string
+  user_id: string | null
+}
+
+// Editable sheet measurements, in the order they're shown
+const SHEET_FIELDS: { key: keyof LabelSheet; label: string; step: number }[] = [
+  { key: "columns", label: "Columns", step: 1 },
+  { key: "rows", label: "Rows", step: 1 },
+  { key: "labelWidth", label: "Label width (mm)", step: 0.1 },
+  { key: "labelHeight", label: "Label height (mm)", step: 0.1 },
+  { key: "marginTop", label: "Top margin (mm)", step: 0.1 },
+  { key: "marginLeft", label: "Left margin (mm)", step: 0.1 },
+  { key: "columnGap", label: "Column gap (mm)", step: 0.1 },
+  { key: "rowGap", label: "Row gap (mm)", step: 0.1 },
+]
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+export default function LabelsPage() {
+  const searchParams = useSearchParams()
+  const { user } = useAuth()
+  const [bowls, setBowls] = useState<LabelBowl[]>([])
+  const [loading, setLoading] = useState(true)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [onlyMine, setOnlyMine] = useState(true)
+  const [sheetId, setSheetId] = useState<LabelSheetId>(DEFAULT_LABEL_SHEET)
+  const [sheet, setSheet] = useState<LabelSheet>(LABEL_SHEETS[DEFAULT_LABEL_SHEET])
+  const [skip, setSkip] = useState(0)
+  const [origin, setOrigin] = useState("")
+
+  useEffect(() => {
+    setOrigin(window.location.origin)
+  }, [])
+
+  // Load the bowl list and apply any preselection from the URL
+  useEffect(() => {
+    async function fetchBowls() {
+      if (!supabase) {
+        setLoading(false)
+        return
+      }
+
+      const { data, error } = await supabase
+        .from("bowls")
+        .select("id, wood_type, date_made, user_id")
+        .is("deleted_at", null)
+        .order("date_made", { ascending: false })
+
+      if (error) {
+        console.error("Error fetching bowls for labels:", error)
+      } else {
+        setBowls(data || [])
+      }
+
+      const ids = searchParams.get("ids")
+      if (ids) {
+        setSelected(new Set(ids.split(",").filter(Boolean)))
+        setOnlyMine(false)
+      }
+
+      setLoading(false)
+    }
+
+    fetchBowls()
+  }, [searchParams])
+
+  const visibleBowls = onlyMine && user ? bowls.filter((bowl) => bowl.user_id === user.id) : bowls
+  const selectedBowls = useMemo(() => bowls.filter((bowl) => selected.has(bowl.id)), [bowls, selected])
+  const sheetError = validateLabelSheet(sheet)
+
+  // QR codes only depend on the bowl, so encode them once per selection
+  const qrCodes = useMemo(() => {
+    const codes = new Map<string, string>()
+    if (!origin) return codes
+    selectedBowls.forEach((bowl) => {
+      codes.set(bowl.id, qrToSvgDataUrl(encodeQR(`${origin}/bowl/${bowl.id}`, "M"), { size: 256, margin: 1 }))
+    })
+    return codes
+  }, [origin, selectedBowls])
+
+  const pages = sheetError ? [] : paginateLabels(selectedBowls, sheet, skip)
+
+  const toggleBowl = (id: string) => {
+    const next = new Set(selected)
+    if (next.has(id)) {
+      next.delete(id)
+    } else {
+      next.add(id)
+    }
+    setSelected(next)
+  }
+
+  const chooseSheet = (id: LabelSheetId) => {
+    setSheetId(id)
+    setSheet(LABEL_SHEETS[id])
+  }
+
+  if (!isSupabaseConfigured()) {
+    return <SupabaseSetup />
+  }
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50 print:bg-none print:bg-white print:min-h-0">
+      {/* Print exactly one label sheet per page, without browser margins */}
+      <style>{`@page { size: ${sheet.pageWidth}mm ${sheet.pageHeight}mm; margin: 0; }`}</style>
+
+      <div className="container mx-auto px-4 py-8 print:hidden">
+        <div className="mb-6 flex items-center justify-between">
+          <Link href="/" className="inline-flex items-center text-amber-700 hover:text-amber-800">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Collection
+          </Link>
+          <Button
+            onClick={() => window.print()}
+            disabled={selectedBowls.length === 0 || !!sheetError}
+            className="bg-amber-600 hover:bg-amber-700"
+          >
+            <Printer className="w-4 h-4 mr-2" />
+            Print {selectedBowls.length} Labels
+          </Button>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Bowls</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="flex items-center justify-between text-sm">
+                {user && (
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input type="checkbox" checked={onlyMine} onChange={(e) => setOnlyMine(e.target.checked)} />
+                    Only my bowls
+                  </label>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setSelected(new Set([...selected, ...visibleBowls.map((bowl) => bowl.id)]))}
+                  >
+                    All
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+                    None
+                  </Button>
+                </div>
+              </div>
+              <div className="max-h-96 overflow-y-auto space-y-1">
+                {visibleBowls.map((bowl) => (
+                  <label key={bowl.id} className="flex items-center gap-2 text-sm cursor-pointer py-1">
+                    <input type="checkbox" checked={selected.has(bowl.id)} onChange={() => toggleBowl(bowl.id)} />
+                    <span className="flex-grow text-amber-900">{bowl.wood_type}</span>
+                    <span className="text-gray-500">{new Date(bowl.date_made).toLocaleDateString()}</span>
+                  </label>
+                ))}
+                {visibleBowls.length === 0 && <p className="text-sm text-gray-500">No bowls to show.</p>}
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/80 backdrop-blur-sm lg:col-span-2">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Label Sheet</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="label-sheet">Sheet</Label>
+                <select
+                  id="label-sheet"
+                  value={sheetId}
+                  onChange={(e) => chooseSheet(e.target.value as LabelSheetId)}
+                  className={selectClassName}
+                >
+                  {(Object.keys(LABEL_SHEETS) as LabelSheetId[]).map((id) => (
+                    <option key={id} value={id}>
+                      {LABEL_SHEETS[id].name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {SHEET_FIELDS.map((field) => (
+                  <div key={field.key}>
+                    <Label htmlFor={`sheet-${field.key}`} className="text-xs">
+                      {field.label}
+                    </Label>
+                    <Input
+                      id={`sheet-${field.key}`}
+                      type="number"
+                      min={0}
+                      step={field.step}
+                      value={sheet[field.key]}
+                      onChange={(e) => setSheet({ ...sheet, [field.key]: Number(e.target.value) })}
+                    />
+                  </div>
+                ))}
+                <div>
+                  <Label htmlFor="sheet-skip" className="text-xs">
+                    Skip used labels
+                  </Label>
+                  <Input
+                    id="sheet-skip"
+                    type="number"
+                    min={0}
+                    max={sheet.columns * sheet.rows - 1}
+                    value={skip}
+                    onChange={(e) => setSkip(Math.max(0, Number(e.target.value)))}
+                  />
+                </div>
+              </div>
+
+              {sheetError && <p className="text-sm text-red-600">{sheetError}</p>}
+              <p className="text-xs text-gray-500">
+                Print at 100% scale (turn off &quot;fit to page&quot;) so labels line up with the sheet.
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Sheets: previewed on screen, and the only thing that prints */}
+      <div className="flex flex-col items-center gap-8 pb-8 print:block print:p-0">
+        {selectedBowls.length > 0 &&
+          pages.map((page, pageIndex) => (
+            <div
+              key={pageIndex}
+              className="relative bg-white shadow-lg print:shadow-none overflow-hidden"
+              style={{
+                width: `${sheet.pageWidth}mm`,
+                height: `${sheet.pageHeight}mm`,
+                breakAfter: pageIndex < pages.length - 1 ? "page" : "auto",
+              }}
+            >
+              {page.map((bowl, slot) => {
+                const column = slot % sheet.columns
+                const row = Math.floor(slot / sheet.columns)
+                return (
+                  <div
+                    key={slot}
+                    className="absolute flex items-center gap-[2mm] p-[1.5mm] overflow-hidden outline outline-1 outline-dashed outline-gray-200 print:outline-none"
+                    style={{
+                      left: `${sheet.marginLeft + column * (sheet.labelWidth + sheet.columnGap)}mm`,
+                      top: `${sheet.marginTop + row * (sheet.labelHeight + sheet.rowGap)}mm`,
+                      width: `${sheet.labelWidth}mm`,
+                      height: `${sheet.labelHeight}mm`,
+                    }}
+                  >
+                    {bowl && (
+                      <>
+                        {qrCodes.get(bowl.id) && (
+                          <Image
+                            src={qrCodes.get(bowl.id)!}
+                            alt=""
+                            width={256}
+                            height={256}
+                            unoptimized
+                            className="h-full w-auto aspect-square flex-shrink-0"
+                          />
+                        )}
+                        <div className="min-w-0 leading-tight">
+                          <div className="font-bold text-[10pt] truncate">{bowl.wood_type}</div>
+                          <div className="text-[8pt]">{new Date(bowl.date_made).toLocaleDateString()}</div>
+                          <div className="text-[8pt] font-mono">#{shortBowlId(bowl.id)}</div>
+                        </div>
+                      </>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
+          ))}
+      </div>
+    </div>
+  )
+}
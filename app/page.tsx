@@ -1,17 +1,24 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
 import Link from "next/link"
-import Image from "next/image"
-import { Plus, Search, Calendar, Sword as Wood, User } from 'lucide-react'
+import { Plus, Archive, Printer, ScanLine, Trash2, Calendar, Sword as Wood, User, ChevronLeft, ChevronRight } from 'lucide-react'
 import { Button } from "@/components/ui/button"
-import { Input } from "@/components/ui/input"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { supabase, mapDatabaseBowlToFrontend, isSupabaseConfigured } from "@/lib/supabase"
+import { supabase, isSupabaseConfigured, type BowlStageName, type StoredImageVariant } from "@/lib/supabase"
+import { fetchBowlPage, fetchCreators, parseBowlQuery, serializeBowlQuery, type BowlPage, type BowlQuery, type Creator } from "@/lib/bowl-query"
 import { SupabaseSetup } from "@/components/supabase-setup"
 import { AuthButton } from "@/components/auth/auth-button"
 import { useAuth } from "@/components/auth/auth-provider"
+import { StageBadge } from "@/components/stage-badge"
+import BowlPicture from "@/components/bowl-picture"
+import BowlFilters from "@/components/bowl-filters"
+import { SearchSnippet } from "@/components/search-snippet"
+import { OfflineNotice } from "@/components/offline-notice"
+import { queryReplica } from "@/lib/offline-replica"
+import { networkManager } from "@/lib/pwa-utils"
 
 interface BowlImage {
   id: string
@@ -21,6 +28,7 @@ interface BowlImage {
   original: string
   dimensions?: { width: number; height: number }
   fileSize?: number
+  variants?: StoredImageVariant[]
 }
 
 interface Bowl {
@@ -31,18 +39,46 @@ interface Bowl {
   finishes: string[]
   comments: string
   images: BowlImage[]
+  stage?: BowlStageName
   createdAt: string
   userId?: string | null
   createdBy?: string
 }
 
 export default function HomePage() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
   const [bowls, setBowls] = useState<Bowl[]>([])
-  const [searchTerm, setSearchTerm] = useState("")
+  const [total, setTotal] = useState(0)
+  const [pageCount, setPageCount] = useState(1)
+  const [snippets, setSnippets] = useState<Record<string, string>>({})
+  const [creators, setCreators] = useState<Creator[]>([])
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
+  const [replicaSyncedAt, setReplicaSyncedAt] = useState<string | null>(null)
   const { user } = useAuth()
 
+  // Grid state lives in the URL so filtered views can be bookmarked
+  const queryString = searchParams.toString()
+  const query = useMemo(() => parseBowlQuery(new URLSearchParams(queryString)), [queryString])
+
+  /**
+   * Apply filter/sort/page changes by updating the URL.
+   * Any change other than the page itself resets to the first page.
+   */
+  const updateQuery = (changes: Partial<BowlQuery>) => {
+    const next = { ...query, page: 1, ...changes }
+    const nextString = serializeBowlQuery(next)
+    router.push(nextString ? `/?${nextString}` : "/", { scroll: "page" in changes })
+  }
+
+  // Load the creator list for the filter once
+  useEffect(() => {
+    if (isSupabaseConfigured()) {
+      fetchCreators().then(setCreators)
+    }
+  }, [])
+
   useEffect(() => {
     async function fetchBowls() {
       try {
@@ -57,35 +93,45 @@ export default function HomePage() {
           return
         }
 
-        console.log("[v0] Fetching bowls from Supabase...")
+        console.log("[v0] Fetching bowls from Supabase...", query)
+        setError(null)
 
-        const cacheBreaker = Date.now()
-        
-        // Fetch all bowls from Supabase, ordered by date_made in descending order (newest first)
-        const { data, error } = await supabase
-          .from("bowls")
-          .select("*")
-          .order("date_made", { ascending: false })
-
-        if (error) {
-          console.error("[v0] Error fetching bowls:", error)
-          setError(`Failed to fetch bowls: ${error.message}`)
-          return
+        const applyPage = (result: BowlPage) => {
+          setBowls(result.bowls)
+          setTotal(result.total)
+          setPageCount(result.pageCount)
+          setSnippets(result.snippets)
         }
 
-        console.log(`[v0] Found ${data.length} bowls in database at ${new Date(cacheBreaker).toISOString()}`)
+        // Read from the offline replica when there's no connection
+        const loadFromReplica = async () => {
+          const replica = await queryReplica(query)
+          if (!replica) return false
 
-        if (data.length === 0) {
-          setBowls([])
-          setLoading(false)
+          applyPage(replica.page)
+          setReplicaSyncedAt(replica.lastSyncedAt)
+          return true
+        }
+
+        if (!networkManager.getStatus() && (await loadFromReplica())) {
           return
         }
 
-        // Map database bowls to frontend format - newest image first for homepage
-        const mappedBowls = await Promise.all(data.map((bowl) => mapDatabaseBowlToFrontend(bowl, 'newest-first')))
-        console.log("[v0] Mapped bowls with newest images first")
+        try {
+          // Sorting, filtering and paging all happen in the database
+          const result = await fetchBowlPage(query)
+          console.log(`[v0] Loaded ${result.bowls.length} of ${result.total} bowls`)
 
-        setBowls(mappedBowls)
+          applyPage(result)
+          setReplicaSyncedAt(null)
+        } catch (fetchError) {
+          // The network may be unreachable even though the browser reports it online
+          if (await loadFromReplica()) {
+            console.warn("[v0] Falling back to offline replica:", fetchError)
+            return
+          }
+          throw fetchError
+        }
       } catch (error) {
         console.error("[v0] Error in fetchBowls:", error)
         setError(`Exception: ${error instanceof Error ? error.message : "Unknown error"}`)
@@ -95,20 +141,14 @@ export default function HomePage() {
     }
 
     fetchBowls()
-  }, [])
+  }, [query])
 
   // Show setup screen if Supabase is not configured
   if (!isSupabaseConfigured()) {
     return <SupabaseSetup />
   }
 
-  const filteredBowls = bowls.filter(
-    (bowl) =>
-      bowl.woodType.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      bowl.woodSource.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      bowl.comments.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      (bowl.createdBy && bowl.createdBy.toLowerCase().includes(searchTerm.toLowerCase())),
-  )
+  const isFiltered = serializeBowlQuery({ ...query, page: 1 }) !== ""
 
   if (loading) {
     return (
@@ -128,13 +168,39 @@ export default function HomePage() {
           </div>
           <div className="flex gap-2 items-center">
             <AuthButton />
+            <Link href="/scan">
+              <Button variant="outline">
+                <ScanLine className="w-4 h-4 mr-2" />
+                Scan
+              </Button>
+            </Link>
             {user && (
-              <Link href="/add">
-                <Button className="bg-amber-600 hover:bg-amber-700">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add New Bowl
-                </Button>
-              </Link>
+              <>
+                <Link href="/labels">
+                  <Button variant="outline">
+                    <Printer className="w-4 h-4 mr-2" />
+                    Labels
+                  </Button>
+                </Link>
+                <Link href="/backup">
+                  <Button variant="outline">
+                    <Archive className="w-4 h-4 mr-2" />
+                    Backup
+                  </Button>
+                </Link>
+                <Link href="/trash">
+                  <Button variant="outline">
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Trash
+                  </Button>
+                </Link>
+                <Link href="/add">
+                  <Button className="bg-amber-600 hover:bg-amber-700">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add New Bowl
+                  </Button>
+                </Link>
+              </>
             )}
           </div>
         </div>
@@ -146,6 +212,8 @@ export default function HomePage() {
           </div>
         )}
 
+        {replicaSyncedAt && <OfflineNotice lastSyncedAt={replicaSyncedAt} />}
+
         {error && (
           <div className="mb-6 bg-red-50 border border-red-200 rounded-md p-4 text-red-700 text-sm">
             <strong>Error loading bowls:</strong> {error}
@@ -153,27 +221,19 @@ export default function HomePage() {
         )}
 
         <div className="mb-6">
-          <div className="relative">
-            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
-            <Input
-              placeholder="Search bowls by wood type, source, creator, or comments..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
-          </div>
+          <BowlFilters query={query} creators={creators} onChange={updateQuery} />
         </div>
 
-        {filteredBowls.length === 0 ? (
+        {bowls.length === 0 ? (
           <div className="text-center py-12">
             <Wood className="w-16 h-16 text-amber-400 mx-auto mb-4" />
             <h3 className="text-xl font-semibold text-amber-900 mb-2">
-              {bowls.length === 0 ? "No bowls yet" : "No bowls match your search"}
+              {isFiltered ? "No bowls match your search" : "No bowls yet"}
             </h3>
             <p className="text-amber-700 mb-4">
-              {bowls.length === 0 ? "Start tracking your wooden bowl creations!" : "Try adjusting your search terms"}
+              {isFiltered ? "Try adjusting your search terms" : "Start tracking your wooden bowl creations!"}
             </p>
-            {bowls.length === 0 && user && (
+            {!isFiltered && user && (
               <Link href="/add">
                 <Button className="bg-amber-600 hover:bg-amber-700">
                   <Plus className="w-4 h-4 mr-2" />
@@ -193,11 +253,14 @@ export default function HomePage() {
               containIntrinsicSize: "auto 350px", // Approximate height hint for layout stability
             }}
           >
-            {filteredBowls.map((bowl) => (
+            {bowls.map((bowl) => (
               <Link key={bowl.id} href={`/bowl/${bowl.id}`}>
                 <Card className="hover:shadow-lg hover:scale-[1.03] transition-all duration-300 ease-in-out cursor-pointer bg-white/80 backdrop-blur-sm group overflow-hidden h-full flex flex-col transform-gpu">
                   <CardHeader className="pb-0 p-4">
-                    <CardTitle className="text-lg text-amber-900">{bowl.woodType}</CardTitle>
+                    <div className="flex items-start justify-between gap-2">
+                      <CardTitle className="text-lg text-amber-900">{bowl.woodType}</CardTitle>
+                      {bowl.stage && <StageBadge stage={bowl.stage} />}
+                    </div>
                     <div className="flex items-center justify-between text-sm text-amber-700">
                       <div className="flex items-center">
                         <Calendar className="w-4 h-4 mr-1" />
@@ -215,7 +278,9 @@ export default function HomePage() {
                     {bowl.images.length > 0 ? (
                       <div className="relative w-full">
                         <div className="w-full aspect-[4/3] relative flex-shrink-0">
-                          <Image
+                          <BowlPicture
+                            variants={bowl.images[0]?.variants}
+                            size="medium"
                             src={bowl.images[0]?.medium || "/placeholder.svg?height=300&width=400"}
                             alt={`${bowl.woodType} bowl`}
                             fill
@@ -248,7 +313,11 @@ export default function HomePage() {
                               )}
                             </div>
                           )}
-                          {bowl.comments && <p className="text-sm text-amber-700 line-clamp-2">{bowl.comments}</p>}
+                          {snippets[bowl.id] ? (
+                            <SearchSnippet snippet={snippets[bowl.id]} className="text-sm text-amber-700 line-clamp-3" />
+                          ) : (
+                            bowl.comments && <p className="text-sm text-amber-700 line-clamp-2">{bowl.comments}</p>
+                          )}
                         </div>
                       </div>
                     ) : (
@@ -271,7 +340,11 @@ export default function HomePage() {
                             )}
                           </div>
                         )}
-                        {bowl.comments && <p className="text-sm text-amber-700 line-clamp-2">{bowl.comments}</p>}
+                        {snippets[bowl.id] ? (
+                          <SearchSnippet snippet={snippets[bowl.id]} className="text-sm text-amber-700 line-clamp-3" />
+                        ) : (
+                          bowl.comments && <p className="text-sm text-amber-700 line-clamp-2">{bowl.comments}</p>
+                        )}
                       </div>
                     )}
                   </CardContent>
@@ -280,6 +353,33 @@ export default function HomePage() {
             ))}
           </div>
         )}
+
+        {/* Pagination */}
+        {total > 0 && (
+          <div className="mt-8 flex items-center justify-center gap-4 text-sm text-amber-800">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateQuery({ page: query.page - 1 })}
+              disabled={query.page <= 1}
+            >
+              <ChevronLeft className="w-4 h-4 mr-1" />
+              Previous
+            </Button>
+            <span>
+              Page {Math.min(query.page, pageCount)} of {pageCount} · {total} bowl{total !== 1 ? "s" : ""}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateQuery({ page: query.page + 1 })}
+              disabled={query.page >= pageCount}
+            >
+              Next
+              <ChevronRight className="w-4 h-4 ml-1" />
+            </Button>
+          </div>
+        )}
       </div>
     </div>
   )
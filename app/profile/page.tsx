@@ -0,0 +1,172 @@
+"use client"
+
+/**
+ * Profile Page Component - REQUIRES AUTHENTICATION
+ *
+ * Lets signed-in users change their display name and photo privacy setting.
+ */
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { ArrowLeft, Loader2, Save, ShieldCheck } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { isSupabaseConfigured } from "@/lib/supabase"
+import { getProfile, updateProfile } from "@/lib/profile"
+import { SupabaseSetup } from "@/components/supabase-setup"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth/auth-provider"
+
+export default function ProfilePage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { user, loading: authLoading } = useAuth()
+  const [fullName, setFullName] = useState("")
+  const [keepCaptureDetails, setKeepCaptureDetails] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please sign in to edit your profile.",
+        variant: "destructive",
+      })
+      router.push("/")
+    }
+  }, [user, authLoading, router, toast])
+
+  useEffect(() => {
+    if (!user || !isSupabaseConfigured()) return
+
+    getProfile(user.id).then((profile) => {
+      if (profile) {
+        setFullName(profile.full_name || "")
+        setKeepCaptureDetails(profile.keep_capture_details)
+      }
+      setLoading(false)
+    })
+  }, [user])
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    setSaving(true)
+    const saved = await updateProfile(user.id, {
+      full_name: fullName.trim() || null,
+      keep_capture_details: keepCaptureDetails,
+    })
+    setSaving(false)
+
+    toast(
+      saved
+        ? { title: "Profile Saved", description: "Your settings have been updated." }
+        : {
+            title: "Error",
+            description: "There was a problem saving your profile. Please try again.",
+            variant: "destructive",
+          },
+    )
+  }
+
+  if (!isSupabaseConfigured()) {
+    return <SupabaseSetup />
+  }
+
+  // Show loading while checking authentication
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  // Don't render if user is not authenticated
+  if (!user) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <Link href="/" className="inline-flex items-center text-amber-700 hover:text-amber-800">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Collection
+          </Link>
+        </div>
+
+        <form onSubmit={handleSave} className="max-w-2xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold text-amber-900">Profile</h1>
+
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Your Details</CardTitle>
+              <CardDescription>Your name is shown as the creator of the bowls you add.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label htmlFor="email">Email</Label>
+                <Input id="email" value={user.email || ""} disabled />
+              </div>
+              <div>
+                <Label htmlFor="fullName">Name</Label>
+                <Input
+                  id="fullName"
+                  value={fullName}
+                  onChange={(e) => setFullName(e.target.value)}
+                  placeholder="Your name"
+                  disabled={loading || saving}
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900 flex items-center gap-2">
+                <ShieldCheck className="w-5 h-5" />
+                Photo Privacy
+              </CardTitle>
+              <CardDescription>
+                Photos are public. Their location (GPS), camera serial numbers and owner names are always removed on
+                your device before anything is uploaded.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <label className="flex items-start gap-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={keepCaptureDetails}
+                  onChange={(e) => setKeepCaptureDetails(e.target.checked)}
+                  disabled={loading || saving}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium text-amber-900">Save when each photo was taken and with which camera</span>
+                  <span className="block text-gray-600">
+                    Stored with the image record, not in the image file. Turn this off to keep neither.
+                  </span>
+                </span>
+              </label>
+            </CardContent>
+          </Card>
+
+          <Button type="submit" disabled={loading || saving} className="bg-amber-600 hover:bg-amber-700">
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            {saving ? "Saving..." : "Save Profile"}
+          </Button>
+        </form>
+      </div>
+    </div>
+  )
+}
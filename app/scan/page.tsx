@@ -0,0 +1,250 @@
+"use client"
+
+/**
+ * Scan Page Component
+ *
+ * Scan mode for bowl tags: decodes QR codes from the live camera stream and,
+ * when a code points to one of our /bowl/[id] URLs, jumps straight to that bowl
+ * (or its edit page) so work can be logged against it right away.
+ */
+
+import { useState, useRef, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import { ScanLine, RotateCcw, ArrowLeft, Camera, Eye, Edit } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent } from "@/components/ui/card"
+import { cameraManager } from "@/lib/pwa-utils"
+import { QRScanner, getBowlScanPath, parseBowlQrValue, type ScanTarget } from "@/lib/qr-scan"
+
+// Remember whether scans should open the record or the edit page
+const SCAN_TARGET_KEY = "scanTarget"
+
+// Time between decode attempts, in milliseconds
+const SCAN_INTERVAL = 250
+
+export default function ScanPage() {
+  const router = useRouter()
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const streamRef = useRef<MediaStream | null>(null)
+  const scannerRef = useRef<QRScanner | null>(null)
+
+  const [facingMode, setFacingMode] = useState<"user" | "environment">("environment")
+  const [target, setTarget] = useState<ScanTarget>("view")
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [unknownCode, setUnknownCode] = useState<string | null>(null)
+  const [navigating, setNavigating] = useState(false)
+
+  useEffect(() => {
+    const saved = localStorage.getItem(SCAN_TARGET_KEY)
+    if (saved === "view" || saved === "edit") {
+      setTarget(saved)
+    }
+  }, [])
+
+  const chooseTarget = (next: ScanTarget) => {
+    setTarget(next)
+    localStorage.setItem(SCAN_TARGET_KEY, next)
+  }
+
+  /**
+   * Stop the camera stream and clean up resources
+   */
+  const stopCamera = useCallback(() => {
+    streamRef.current?.getTracks().forEach((track) => track.stop())
+    streamRef.current = null
+  }, [])
+
+  // Start (or restart) the camera whenever the facing mode changes
+  useEffect(() => {
+    let cancelled = false
+
+    async function startCamera() {
+      try {
+        setError(null)
+
+        if (!(await cameraManager.hasCamera())) {
+          setError("No camera available on this device")
+          return
+        }
+
+        if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
+          throw new Error("Camera not supported in this browser")
+        }
+
+        const mediaStream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode, width: { ideal: 1280 }, height: { ideal: 720 } },
+        })
+
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop())
+          return
+        }
+
+        streamRef.current = mediaStream
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream
+        }
+      } catch (err) {
+        console.error("Camera access failed:", err)
+        setError("Camera access denied or not available")
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    startCamera()
+
+    return () => {
+      cancelled = true
+      stopCamera()
+    }
+  }, [facingMode, stopCamera])
+
+  // The video element only mounts once loading finishes, so attach the stream then
+  useEffect(() => {
+    if (!loading && videoRef.current && streamRef.current && !videoRef.current.srcObject) {
+      videoRef.current.srcObject = streamRef.current
+    }
+  }, [loading])
+
+  // Decode frames on an interval until a bowl code is found
+  useEffect(() => {
+    if (loading || error || navigating) return
+
+    if (!scannerRef.current) {
+      scannerRef.current = new QRScanner()
+    }
+
+    let busy = false
+    const interval = setInterval(async () => {
+      if (busy || !videoRef.current) return
+      busy = true
+
+      try {
+        const value = await scannerRef.current!.scanFrame(videoRef.current)
+        if (!value) return
+
+        const bowlId = parseBowlQrValue(value)
+        if (bowlId) {
+          setNavigating(true)
+          stopCamera()
+          router.push(getBowlScanPath(bowlId, target))
+        } else {
+          setUnknownCode(value)
+        }
+      } catch (err) {
+        console.error("QR scan failed:", err)
+      } finally {
+        busy = false
+      }
+    }, SCAN_INTERVAL)
+
+    return () => clearInterval(interval)
+  }, [loading, error, navigating, target, router, stopCamera])
+
+  // Loading state
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <div className="text-white text-center">
+          <Camera className="w-16 h-16 mx-auto mb-4 animate-pulse" />
+          <p>Starting camera...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // Error state - no camera or access denied
+  if (error) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center p-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="p-6 text-center">
+            <Camera className="w-16 h-16 text-gray-400 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold mb-2">Camera Not Available</h2>
+            <p className="text-gray-600 mb-4">{error}</p>
+            <Button onClick={() => router.push("/")} className="w-full">
+              Back to Collection
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-black text-white relative overflow-hidden">
+      {/* Header with navigation and camera switch */}
+      <div className="absolute top-0 left-0 right-0 z-10 bg-gradient-to-b from-black/50 to-transparent p-4">
+        <div className="flex items-center justify-between">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="text-white hover:bg-white/20"
+            onClick={() => router.push("/")}
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+
+          <div className="flex items-center gap-2 text-sm">
+            <ScanLine className="w-4 h-4" />
+            {navigating ? "Opening bowl..." : "Point at a bowl tag"}
+          </div>
+
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setFacingMode((prev) => (prev === "user" ? "environment" : "user"))}
+            className="text-white hover:bg-white/20"
+            title="Switch camera"
+          >
+            <RotateCcw className="w-5 h-5" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Camera View */}
+      <div className="relative w-full h-screen">
+        <video ref={videoRef} autoPlay playsInline muted className="w-full h-full object-cover" />
+
+        {/* Scan Guidelines */}
+        <div className="absolute inset-0 pointer-events-none">
+          <div className="w-full h-full flex items-center justify-center">
+            <div className="w-64 h-64 border-2 border-amber-400/70 rounded-lg"></div>
+          </div>
+        </div>
+
+        {/* Codes that aren't bowl tags */}
+        {unknownCode && (
+          <div className="absolute top-20 left-4 right-4 bg-black/70 text-white p-3 rounded-lg text-sm">
+            <p className="font-medium">That QR code isn&apos;t a bowl tag</p>
+            <p className="text-white/70 truncate">{unknownCode}</p>
+          </div>
+        )}
+
+        {/* Where to go after a successful scan */}
+        <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/50 to-transparent p-6">
+          <div className="flex items-center justify-center gap-2">
+            <Button
+              variant={target === "view" ? "default" : "ghost"}
+              onClick={() => chooseTarget("view")}
+              className={target === "view" ? "bg-amber-600 hover:bg-amber-700" : "text-white hover:bg-white/20"}
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              Open record
+            </Button>
+            <Button
+              variant={target === "edit" ? "default" : "ghost"}
+              onClick={() => chooseTarget("edit")}
+              className={target === "edit" ? "bg-amber-600 hover:bg-amber-700" : "text-white hover:bg-white/20"}
+            >
+              <Edit className="w-4 h-4 mr-2" />
+              Open editor
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
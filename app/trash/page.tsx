@@ -0,0 +1,256 @@
+"use client"
+
+/**
+ * Trash Page Component - REQUIRES AUTHENTICATION
+ *
+ * Lists the signed-in user's deleted bowls with how long each one stays restorable.
+ * Bowls can be restored or deleted forever; expired ones are purged when the page loads.
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import Image from "next/image"
+import { ArrowLeft, RotateCcw, Trash2, Loader2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { isSupabaseConfigured } from "@/lib/supabase"
+import {
+  TRASH_RETENTION_DAYS,
+  getDaysUntilPurge,
+  getTrashedBowls,
+  purgeBowl,
+  purgeExpiredTrash,
+  restoreBowlFromTrash,
+  type TrashedBowl,
+} from "@/lib/trash"
+import { SupabaseSetup } from "@/components/supabase-setup"
+import { useToast } from "@/hooks/use-toast"
+import { useAuth } from "@/components/auth/auth-provider"
+
+export default function TrashPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const { user, loading: authLoading } = useAuth()
+  const [bowls, setBowls] = useState<TrashedBowl[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [emptying, setEmptying] = useState(false)
+
+  // Redirect to home if not authenticated
+  useEffect(() => {
+    if (!authLoading && !user) {
+      toast({
+        title: "Authentication Required",
+        description: "Please sign in to view your trash.",
+        variant: "destructive",
+      })
+      router.push("/")
+    }
+  }, [user, authLoading, router, toast])
+
+  const loadTrash = useCallback(async () => {
+    if (!user) return
+
+    setBowls(await getTrashedBowls(user.id))
+    setLoading(false)
+  }, [user])
+
+  useEffect(() => {
+    if (!user || !isSupabaseConfigured()) return
+
+    purgeExpiredTrash(user.id).then(loadTrash)
+  }, [user, loadTrash])
+
+  const handleRestore = async (bowl: TrashedBowl) => {
+    setBusyId(bowl.id)
+
+    try {
+      await restoreBowlFromTrash(bowl.id)
+      toast({
+        title: "Bowl Restored",
+        description: `The ${bowl.wood_type} bowl is back in your collection.`,
+      })
+      await loadTrash()
+    } catch (error) {
+      console.error("Error restoring bowl:", error)
+      toast({
+        title: "Restore Failed",
+        description: "There was a problem restoring the bowl. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePurge = async (bowl: TrashedBowl) => {
+    if (!window.confirm(`Permanently delete the ${bowl.wood_type} bowl and its images? This cannot be undone.`)) return
+
+    setBusyId(bowl.id)
+
+    try {
+      await purgeBowl(bowl.id)
+      toast({
+        title: "Bowl Deleted",
+        description: "The bowl and its images have been permanently removed.",
+      })
+      await loadTrash()
+    } catch (error) {
+      console.error("Error deleting bowl:", error)
+      toast({
+        title: "Delete Failed",
+        description: "There was a problem deleting the bowl. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handleEmptyTrash = async () => {
+    if (!window.confirm(`Permanently delete all ${bowls.length} bowls in the trash? This cannot be undone.`)) return
+
+    setEmptying(true)
+    let failed = 0
+
+    for (const bowl of bowls) {
+      try {
+        await purgeBowl(bowl.id)
+      } catch (error) {
+        console.error(`Error deleting bowl ${bowl.id}:`, error)
+        failed++
+      }
+    }
+
+    toast({
+      title: failed > 0 ? "Trash Partly Emptied" : "Trash Emptied",
+      description:
+        failed > 0
+          ? `${failed} bowls could not be deleted. Please try again.`
+          : "All bowls in the trash have been permanently removed.",
+      variant: failed > 0 ? "destructive" : "default",
+    })
+
+    await loadTrash()
+    setEmptying(false)
+  }
+
+  if (!isSupabaseConfigured()) {
+    return <SupabaseSetup />
+  }
+
+  // Show loading while checking authentication
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50 flex items-center justify-center">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
+
+  // Don't render if user is not authenticated
+  if (!user) {
+    return null
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-amber-50 to-orange-50">
+      <div className="container mx-auto px-4 py-8">
+        <div className="mb-6">
+          <Link href="/" className="inline-flex items-center text-amber-700 hover:text-amber-800">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Collection
+          </Link>
+        </div>
+
+        <div className="max-w-2xl mx-auto space-y-6">
+          <h1 className="text-3xl font-bold text-amber-900">Trash</h1>
+
+          <Card className="bg-white/80 backdrop-blur-sm">
+            <CardHeader>
+              <CardTitle className="text-amber-900">Deleted Bowls</CardTitle>
+              <CardDescription>
+                Deleted bowls can be restored for {TRASH_RETENTION_DAYS} days. After that they are permanently removed
+                together with their images.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {loading ? (
+                <p className="text-sm text-amber-700">Loading trash...</p>
+              ) : bowls.length === 0 ? (
+                <p className="text-sm text-amber-700">The trash is empty.</p>
+              ) : (
+                <>
+                  <ul className="divide-y divide-amber-100">
+                    {bowls.map((bowl) => {
+                      const daysLeft = getDaysUntilPurge(bowl.deleted_at)
+
+                      return (
+                        <li key={bowl.id} className="flex items-center gap-3 py-3">
+                          <div className="relative w-16 h-16 shrink-0 overflow-hidden rounded bg-amber-100">
+                            {bowl.thumbnailUrl && (
+                              <Image
+                                src={bowl.thumbnailUrl}
+                                alt={`${bowl.wood_type} bowl`}
+                                fill
+                                sizes="64px"
+                                className="object-cover"
+                              />
+                            )}
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-amber-900 truncate">{bowl.wood_type}</p>
+                            <p className="text-xs text-amber-700">
+                              Made {new Date(bowl.date_made).toLocaleDateString()} · Deleted{" "}
+                              {new Date(bowl.deleted_at).toLocaleDateString()}
+                            </p>
+                            <p className="text-xs text-amber-600">
+                              {daysLeft > 0
+                                ? `Permanently deleted in ${daysLeft} ${daysLeft === 1 ? "day" : "days"}`
+                                : "Will be permanently deleted soon"}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRestore(bowl)}
+                              disabled={busyId !== null || emptying}
+                            >
+                              {busyId === bowl.id ? (
+                                <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                              ) : (
+                                <RotateCcw className="w-4 h-4 mr-1" />
+                              )}
+                              Restore
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="text-red-700 hover:text-red-800"
+                              onClick={() => handlePurge(bowl)}
+                              disabled={busyId !== null || emptying}
+                              title="Delete forever"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </li>
+                      )
+                    })}
+                  </ul>
+
+                  <Button variant="destructive" onClick={handleEmptyTrash} disabled={busyId !== null || emptying}>
+                    {emptying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+                    {emptying ? "Emptying..." : "Empty Trash"}
+                  </Button>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 
 import type React from "react"
 import { useState } from "react"
+import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { useAuth } from "./auth-provider"
 import { signIn, signUp, signInWithGoogle } from "@/lib/auth"
@@ -235,10 +236,10 @@ export function AuthButton() {
   if (user) {
     return (
       <div className="flex items-center gap-2">
-        <div className="flex items-center gap-2 text-sm text-amber-700">
+        <Link href="/profile" className="flex items-center gap-2 text-sm text-amber-700 hover:text-amber-800">
           <User className="w-4 h-4" />
           <span className="hidden sm:inline">{user.user_metadata?.full_name || user.email}</span>
-        </div>
+        </Link>
         <Button variant="outline" size="sm" onClick={handleSignOut} disabled={signOutLoading}>
           <LogOut className="w-4 h-4 mr-2" />
           {signOutLoading ? "Signing Out..." : "Sign Out"}
@@ -4,6 +4,8 @@ import type React from "react"
 import { createContext, useContext, useEffect, useState } from "react"
 import type { User } from "@supabase/supabase-js"
 import { supabaseAuth } from "@/lib/auth"
+import { purgeExpiredTrash } from "@/lib/trash"
+import { networkManager } from "@/lib/pwa-utils"
 
 interface AuthContextType {
   user: User | null
@@ -113,6 +115,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, [isSigningOut])
 
+  // Permanently remove the user's bowls that have been in the trash past the retention period.
+  // Runs once per signed-in session, whichever page it starts on.
+  const userId = user?.id
+  useEffect(() => {
+    if (userId && networkManager.getStatus()) {
+      purgeExpiredTrash(userId)
+    }
+  }, [userId])
+
   const signOut = async () => {
     try {
       console.log("AuthProvider: Initiating sign out")
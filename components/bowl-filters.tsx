@@ -0,0 +1,160 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Search, ArrowDownAZ, ArrowUpAZ, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { BOWL_SORT_OPTIONS, DEFAULT_BOWL_QUERY, type BowlQuery, type BowlSort, type Creator } from "@/lib/bowl-query"
+
+interface BowlFiltersProps {
+  query: BowlQuery
+  creators: Creator[]
+  onChange: (changes: Partial<BowlQuery>) => void
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+/**
+ * Search, sort and filter controls for the bowl grid.
+ * Text fields are kept as a local draft and applied on submit so each keystroke doesn't trigger a query.
+ */
+export default function BowlFilters({ query, creators, onChange }: BowlFiltersProps) {
+  const [draft, setDraft] = useState({ q: query.q, woodType: query.woodType, finish: query.finish })
+
+  // Keep the draft in sync when the URL changes (e.g. back/forward navigation)
+  useEffect(() => {
+    setDraft({ q: query.q, woodType: query.woodType, finish: query.finish })
+  }, [query.q, query.woodType, query.finish])
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    onChange({ q: draft.q.trim(), woodType: draft.woodType.trim(), finish: draft.finish.trim() })
+  }
+
+  const hasFilters =
+    query.q || query.woodType || query.finish || query.creator || query.from || query.to
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-grow">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+          <Input
+            placeholder="Search bowls by wood type, finish, source, creator, or comments..."
+            value={draft.q}
+            onChange={(e) => setDraft({ ...draft, q: e.target.value })}
+            className="pl-10"
+          />
+        </div>
+        <Button type="submit" className="bg-amber-600 hover:bg-amber-700">
+          Search
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+        <div>
+          <Label htmlFor="filter-wood" className="text-xs text-amber-800">
+            Wood type
+          </Label>
+          <Input
+            id="filter-wood"
+            value={draft.woodType}
+            onChange={(e) => setDraft({ ...draft, woodType: e.target.value })}
+            placeholder="Any"
+          />
+        </div>
+        <div>
+          <Label htmlFor="filter-finish" className="text-xs text-amber-800">
+            Finish
+          </Label>
+          <Input
+            id="filter-finish"
+            value={draft.finish}
+            onChange={(e) => setDraft({ ...draft, finish: e.target.value })}
+            placeholder="Any"
+          />
+        </div>
+        <div>
+          <Label htmlFor="filter-creator" className="text-xs text-amber-800">
+            Creator
+          </Label>
+          <select
+            id="filter-creator"
+            value={query.creator}
+            onChange={(e) => onChange({ creator: e.target.value })}
+            className={selectClassName}
+          >
+            <option value="">Anyone</option>
+            {creators.map((creator) => (
+              <option key={creator.id} value={creator.id}>
+                {creator.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="filter-from" className="text-xs text-amber-800">
+            Made from
+          </Label>
+          <Input id="filter-from" type="date" value={query.from} onChange={(e) => onChange({ from: e.target.value })} />
+        </div>
+        <div>
+          <Label htmlFor="filter-to" className="text-xs text-amber-800">
+            Made to
+          </Label>
+          <Input id="filter-to" type="date" value={query.to} onChange={(e) => onChange({ to: e.target.value })} />
+        </div>
+        <div>
+          <Label htmlFor="filter-sort" className="text-xs text-amber-800">
+            Sort by
+          </Label>
+          <div className="flex gap-1">
+            {/* Text searches are always ranked by relevance */}
+            <select
+              id="filter-sort"
+              value={query.q ? "relevance" : query.sort}
+              onChange={(e) => onChange({ sort: e.target.value as BowlSort })}
+              className={selectClassName}
+              disabled={!!query.q}
+            >
+              {query.q && <option value="relevance">Relevance</option>}
+              {Object.entries(BOWL_SORT_OPTIONS).map(([value, option]) => (
+                <option key={value} value={value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              className="flex-shrink-0"
+              onClick={() => onChange({ ascending: !query.ascending })}
+              disabled={!!query.q}
+              aria-label={query.ascending ? "Sort descending" : "Sort ascending"}
+            >
+              {query.ascending ? <ArrowDownAZ className="w-4 h-4" /> : <ArrowUpAZ className="w-4 h-4" />}
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {hasFilters && (
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="text-amber-700"
+          onClick={() => onChange({ ...DEFAULT_BOWL_QUERY, sort: query.sort, ascending: query.ascending })}
+        >
+          <X className="w-3 h-3 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </form>
+  )
+}
@@ -0,0 +1,130 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { History, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useToast } from "@/hooks/use-toast"
+import { diffRevisionSnapshots, getBowlRevisions, restoreBowlRevision, type BowlRevision } from "@/lib/bowl-history"
+import { BowlConflictError } from "@/lib/bowl-save"
+
+interface BowlHistoryProps {
+  bowlId: string
+  canRestore: boolean
+  // Change this to reload the list (e.g. after the bowl was saved)
+  refreshKey?: number
+  onRestored: () => void
+}
+
+/**
+ * Lists every recorded change to a bowl, newest first, with field-level before/after values.
+ * Owners can restore any earlier version, which is saved as a new revision.
+ */
+export default function BowlHistory({ bowlId, canRestore, refreshKey = 0, onRestored }: BowlHistoryProps) {
+  const { toast } = useToast()
+  const [revisions, setRevisions] = useState<BowlRevision[]>([])
+  const [loading, setLoading] = useState(true)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+
+    setLoading(true)
+    getBowlRevisions(bowlId).then((loaded) => {
+      if (!cancelled) {
+        setRevisions(loaded)
+        setLoading(false)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [bowlId, refreshKey])
+
+  const handleRestore = async (revision: BowlRevision) => {
+    const when = new Date(revision.changed_at).toLocaleString()
+    if (!window.confirm(`Restore this bowl to how it was on ${when}?`)) return
+
+    setRestoringId(revision.id)
+
+    try {
+      await restoreBowlRevision(bowlId, revision.snapshot)
+      toast({
+        title: "Version Restored",
+        description: `The bowl was restored to its version from ${when}.`,
+      })
+      onRestored()
+    } catch (error) {
+      console.error("Error restoring revision:", error)
+      toast({
+        title: "Restore Failed",
+        description:
+          error instanceof BowlConflictError
+            ? "The bowl changed while restoring. Reload the page and try again."
+            : "There was a problem restoring this version. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setRestoringId(null)
+    }
+  }
+
+  if (loading) {
+    return <p className="text-sm text-amber-700">Loading history...</p>
+  }
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-amber-700">No changes recorded yet.</p>
+  }
+
+  return (
+    <ol className="relative border-l border-amber-200 ml-2 space-y-4">
+      {revisions.map((revision, index) => {
+        const previous = revisions[index + 1]?.snapshot ?? null
+        const changes = diffRevisionSnapshots(previous, revision.snapshot)
+
+        return (
+          <li key={revision.id} className="ml-4">
+            <History className="absolute -left-2 w-4 h-4 text-amber-600 bg-white rounded-full" />
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-xs text-amber-600">
+                {new Date(revision.changed_at).toLocaleString()} · {revision.authorName}
+                {index === 0 && " · current"}
+                {!previous && " · created"}
+              </div>
+              {canRestore && index > 0 && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 text-xs"
+                  onClick={() => handleRestore(revision)}
+                  disabled={restoringId !== null}
+                >
+                  <RotateCcw className="w-3 h-3 mr-1" />
+                  {restoringId === revision.id ? "Restoring..." : "Restore"}
+                </Button>
+              )}
+            </div>
+            <dl className="mt-1 space-y-1 text-sm">
+              {changes.map((change) => (
+                <div key={change.field}>
+                  <dt className="font-medium text-amber-800">{change.field}</dt>
+                  <dd className="text-amber-700 break-words">
+                    {previous && (
+                      <>
+                        <span className="line-through text-red-700/70">{change.before || "(empty)"}</span>
+                        {" → "}
+                      </>
+                    )}
+                    <span className="text-green-800">{change.after || "(empty)"}</span>
+                  </dd>
+                </div>
+              ))}
+              {changes.length === 0 && <p className="text-amber-700">No visible changes.</p>}
+            </dl>
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
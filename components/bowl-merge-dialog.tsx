@@ -0,0 +1,154 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import { AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import {
+  diffBowlVersions,
+  MERGE_FIELDS,
+  type BowlVersion,
+  type MergeChoice,
+  type MergeField,
+  type ServerBowlVersion,
+} from "@/lib/bowl-conflict"
+import { STAGE_LABELS } from "@/lib/stages"
+
+interface BowlMergeDialogProps {
+  open: boolean
+  mine: BowlVersion
+  theirs: ServerBowlVersion
+  // Set when a queued stage change no longer applies because the server's stage moved on
+  stageDropped: boolean
+  onCancel: () => void
+  onMerge: (choices: Partial<Record<MergeField, MergeChoice>>) => void
+}
+
+// Render one side of a field for comparison
+function FieldValue({ field, version }: { field: MergeField; version: BowlVersion }) {
+  if (field === "finishes") {
+    return <span>{version.finishes.length > 0 ? version.finishes.join(", ") : "None"}</span>
+  }
+
+  if (field === "images") {
+    return (
+      <div className="flex flex-wrap gap-1">
+        {version.images.map((image, index) => (
+          <Image
+            key={image.id ?? `new-${index}`}
+            src={image.url}
+            alt={`Image ${index + 1}`}
+            width={40}
+            height={40}
+            className={`w-10 h-10 object-cover rounded ${image.id === null ? "ring-2 ring-blue-500" : ""}`}
+          />
+        ))}
+        {version.images.length === 0 && <span>No images</span>}
+      </div>
+    )
+  }
+
+  if (field === "dateMade") {
+    return <span>{new Date(version.dateMade).toLocaleDateString()}</span>
+  }
+
+  return <span className="whitespace-pre-wrap break-words">{version[field] || "(empty)"}</span>
+}
+
+/**
+ * Shown when saving an edit fails because the bowl was saved elsewhere in the meantime.
+ * Lists the fields that differ and lets the user keep their value or take the server's for each.
+ */
+export default function BowlMergeDialog({ open, mine, theirs, stageDropped, onCancel, onMerge }: BowlMergeDialogProps) {
+  const differences = diffBowlVersions(mine, theirs)
+  const [choices, setChoices] = useState<Partial<Record<MergeField, MergeChoice>>>({})
+
+  // Default to keeping the user's own edits
+  useEffect(() => {
+    if (open) {
+      setChoices(Object.fromEntries(diffBowlVersions(mine, theirs).map((field) => [field, "mine"])))
+    }
+  }, [open, mine, theirs])
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-amber-900">
+            <AlertTriangle className="w-5 h-5 text-amber-600" />
+            This bowl was changed elsewhere
+          </DialogTitle>
+          <DialogDescription>
+            Someone saved this bowl after you started editing, so your changes were not saved. Choose which version
+            to keep for each field, then review the form and save again.
+          </DialogDescription>
+        </DialogHeader>
+
+        {stageDropped && (
+          <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded p-2">
+            The bowl is now at the {STAGE_LABELS[theirs.stage]} stage, so your queued stage change was cleared.
+          </p>
+        )}
+
+        {differences.length === 0 ? (
+          <p className="text-sm text-gray-600">
+            The other save didn&apos;t touch any of the fields you can edit here. Your changes can be saved as they
+            are.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {differences.map((field) => (
+              <div key={field} className="space-y-2">
+                <p className="text-sm font-medium text-amber-900">{MERGE_FIELDS[field]}</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {(["mine", "theirs"] as MergeChoice[]).map((side) => (
+                    <label
+                      key={side}
+                      className={`flex flex-col gap-1 p-2 rounded border text-sm cursor-pointer ${
+                        choices[field] === side ? "border-amber-500 bg-amber-50" : "border-gray-200"
+                      }`}
+                    >
+                      <span className="flex items-center gap-2 font-medium">
+                        <input
+                          type="radio"
+                          name={`merge-${field}`}
+                          checked={choices[field] === side}
+                          onChange={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+                        />
+                        {side === "mine" ? "Your version" : "Saved version"}
+                      </span>
+                      <FieldValue field={field} version={side === "mine" ? mine : theirs} />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {differences.includes("images") && (
+              <p className="text-xs text-gray-500">
+                Images you added (outlined in blue) are kept either way. Images deleted in the saved version can&apos;t
+                be restored.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button onClick={() => onMerge(choices)} className="bg-amber-600 hover:bg-amber-700">
+            Apply to Form
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
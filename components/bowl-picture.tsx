@@ -0,0 +1,29 @@
+import Image, { type ImageProps } from "next/image"
+import type { StoredImageVariant } from "@/lib/supabase"
+
+interface BowlPictureProps extends ImageProps {
+  // All stored variants of the image; only the alternate formats of preset `size` are used
+  variants?: StoredImageVariant[]
+  size: string
+}
+
+/**
+ * A bowl image wrapped in <picture> with a source for each alternate format stored for preset `size`,
+ * smallest first. The browser takes the first format it supports and falls back to the file in `src`.
+ */
+export default function BowlPicture({ variants = [], size, alt, ...imageProps }: BowlPictureProps) {
+  // The first variant of a preset is its fallback, which `src` already points at
+  const sources = variants
+    .filter((variant) => variant.name === size)
+    .slice(1)
+    .sort((a, b) => (a.bytes ?? Infinity) - (b.bytes ?? Infinity))
+
+  return (
+    <picture>
+      {sources.map((source) => (
+        <source key={source.format} type={`image/${source.format}`} srcSet={source.url} />
+      ))}
+      <Image alt={alt} {...imageProps} />
+    </picture>
+  )
+}
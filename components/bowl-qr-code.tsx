@@ -0,0 +1,120 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import Image from "next/image"
+import { Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  QR_ERROR_CORRECTION_LEVELS,
+  QR_SIZES,
+  encodeQR,
+  qrToPngDataUrl,
+  qrToSvg,
+  qrToSvgDataUrl,
+  type QRErrorCorrection,
+} from "@/lib/qr-code"
+
+interface BowlQRCodeProps {
+  // The text to encode, normally the bowl's page URL
+  value: string
+  // Download file name without extension
+  fileName: string
+}
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+/**
+ * QR code preview with size and error-correction options.
+ * Encoding and rendering happen locally, so this works offline.
+ */
+export default function BowlQRCode({ value, fileName }: BowlQRCodeProps) {
+  const [size, setSize] = useState<number>(256)
+  const [level, setLevel] = useState<QRErrorCorrection>("M")
+
+  const matrix = useMemo(() => (value ? encodeQR(value, level) : null), [value, level])
+
+  /**
+   * Download QR code as a PNG or SVG file
+   */
+  const downloadQRCode = (format: "png" | "svg") => {
+    if (!matrix) return
+
+    const link = document.createElement("a")
+    if (format === "png") {
+      link.href = qrToPngDataUrl(matrix, { size })
+    } else {
+      link.href = URL.createObjectURL(new Blob([qrToSvg(matrix, { size })], { type: "image/svg+xml" }))
+    }
+    link.download = `${fileName}.${format}`
+    link.click()
+
+    if (format === "svg") {
+      setTimeout(() => URL.revokeObjectURL(link.href), 1000)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center space-y-4">
+      {matrix && (
+        <Image
+          src={qrToSvgDataUrl(matrix, { size: 200 })}
+          alt="QR Code"
+          width={200}
+          height={200}
+          unoptimized
+          className="border rounded-lg"
+        />
+      )}
+
+      <div className="grid grid-cols-2 gap-2 w-full">
+        <div>
+          <Label htmlFor="qr-size" className="text-xs">
+            Size
+          </Label>
+          <select
+            id="qr-size"
+            value={size}
+            onChange={(e) => setSize(Number(e.target.value))}
+            className={selectClassName}
+          >
+            {QR_SIZES.map((option) => (
+              <option key={option} value={option}>
+                {option} × {option}px
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <Label htmlFor="qr-level" className="text-xs">
+            Error correction
+          </Label>
+          <select
+            id="qr-level"
+            value={level}
+            onChange={(e) => setLevel(e.target.value as QRErrorCorrection)}
+            className={selectClassName}
+          >
+            {(Object.keys(QR_ERROR_CORRECTION_LEVELS) as QRErrorCorrection[]).map((option) => (
+              <option key={option} value={option}>
+                {QR_ERROR_CORRECTION_LEVELS[option].label} ({QR_ERROR_CORRECTION_LEVELS[option].description})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2 w-full">
+        <Button onClick={() => downloadQRCode("png")} disabled={!matrix}>
+          <Download className="w-4 h-4 mr-2" />
+          PNG
+        </Button>
+        <Button onClick={() => downloadQRCode("svg")} variant="outline" disabled={!matrix}>
+          <Download className="w-4 h-4 mr-2" />
+          SVG
+        </Button>
+      </div>
+    </div>
+  )
+}
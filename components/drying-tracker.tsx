@@ -0,0 +1,235 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { Droplets, Trash2, CheckCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { useToast } from "@/hooks/use-toast"
+import {
+  DRYING_CONFIG,
+  addBowlMeasurement,
+  deleteBowlMeasurement,
+  getBowlMeasurements,
+  updateBowlDryStatus,
+} from "@/lib/drying"
+import type { BowlMeasurement } from "@/lib/supabase"
+
+interface DryingTrackerProps {
+  bowlId: string
+  canEdit: boolean
+  driedAt: string | null
+  onDryStatusChange?: (driedAt: string | null) => void
+}
+
+export default function DryingTracker({ bowlId, canEdit, driedAt, onDryStatusChange }: DryingTrackerProps) {
+  const { toast } = useToast()
+  const [measurements, setMeasurements] = useState<BowlMeasurement[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    measuredAt: new Date().toISOString().split("T")[0],
+    weight: "",
+    moisture: "",
+  })
+
+  useEffect(() => {
+    getBowlMeasurements(bowlId).then((data) => {
+      setMeasurements(data)
+      setLoading(false)
+    })
+  }, [bowlId])
+
+  /**
+   * Store the new log and re-evaluate whether the bowl has finished drying
+   */
+  const applyMeasurements = async (updated: BowlMeasurement[]) => {
+    setMeasurements(updated)
+    const newDriedAt = await updateBowlDryStatus(bowlId, updated)
+
+    if (newDriedAt && !driedAt) {
+      toast({
+        title: "Bowl Is Dry",
+        description: `Weight has levelled off over the last ${DRYING_CONFIG.windowDays} days.`,
+      })
+    }
+    onDryStatusChange?.(newDriedAt)
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const weight = Number.parseFloat(form.weight)
+    const moisture = form.moisture ? Number.parseFloat(form.moisture) : null
+    if (!Number.isFinite(weight) || weight <= 0) {
+      toast({ title: "Error", description: "Enter a weight in grams.", variant: "destructive" })
+      return
+    }
+
+    setSaving(true)
+    const measurement = await addBowlMeasurement(bowlId, form.measuredAt, weight, moisture)
+    setSaving(false)
+
+    if (!measurement) {
+      toast({ title: "Error", description: "Failed to save measurement.", variant: "destructive" })
+      return
+    }
+
+    const updated = [...measurements, measurement].sort((a, b) => a.measured_at.localeCompare(b.measured_at))
+    setForm({ ...form, weight: "", moisture: "" })
+    await applyMeasurements(updated)
+  }
+
+  const handleDelete = async (measurementId: string) => {
+    if (!(await deleteBowlMeasurement(measurementId))) {
+      toast({ title: "Error", description: "Failed to delete measurement.", variant: "destructive" })
+      return
+    }
+    await applyMeasurements(measurements.filter((m) => m.id !== measurementId))
+  }
+
+  // Nothing to show visitors for bowls that were never weighed
+  if (loading || (!canEdit && measurements.length === 0)) {
+    return null
+  }
+
+  const hasMoisture = measurements.some((m) => m.moisture_percent !== null)
+  const chartData = measurements.map((m) => ({
+    date: new Date(m.measured_at).toLocaleDateString(),
+    weight: m.weight_grams,
+    moisture: m.moisture_percent,
+  }))
+
+  return (
+    <Card className="bg-white/80 backdrop-blur-sm">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-lg text-amber-900 flex items-center">
+          <Droplets className="w-4 h-4 mr-2" />
+          Drying Log
+        </CardTitle>
+        {driedAt ? (
+          <Badge className="bg-green-100 text-green-800 border-green-200" variant="outline">
+            <CheckCircle className="w-3 h-3 mr-1" />
+            Dry since {new Date(driedAt).toLocaleDateString()}
+          </Badge>
+        ) : (
+          measurements.length > 0 && (
+            <Badge className="bg-sky-100 text-sky-800 border-sky-200" variant="outline">
+              Drying
+            </Badge>
+          )
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Drying curve */}
+        {measurements.length > 1 && (
+          <div className="h-56 w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 5, bottom: 5, left: -10 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#fde68a" />
+                <XAxis dataKey="date" tick={{ fontSize: 10 }} />
+                <YAxis yAxisId="weight" tick={{ fontSize: 10 }} domain={["auto", "auto"]} unit="g" />
+                {hasMoisture && (
+                  <YAxis yAxisId="moisture" orientation="right" tick={{ fontSize: 10 }} domain={[0, "auto"]} unit="%" />
+                )}
+                <Tooltip />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                <Line yAxisId="weight" type="monotone" dataKey="weight" name="Weight (g)" stroke="#d97706" />
+                {hasMoisture && (
+                  <Line
+                    yAxisId="moisture"
+                    type="monotone"
+                    dataKey="moisture"
+                    name="Moisture (%)"
+                    stroke="#0284c7"
+                    connectNulls
+                  />
+                )}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+
+        {/* Measurement list */}
+        {measurements.length > 0 ? (
+          <div className="max-h-48 overflow-auto divide-y text-sm">
+            {[...measurements].reverse().map((m) => (
+              <div key={m.id} className="flex items-center justify-between py-1 text-amber-800">
+                <span>{new Date(m.measured_at).toLocaleDateString()}</span>
+                <span>{m.weight_grams} g</span>
+                <span className="w-14 text-right">{m.moisture_percent !== null ? `${m.moisture_percent}%` : "—"}</span>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6 text-red-600"
+                    onClick={() => handleDelete(m.id)}
+                    aria-label="Delete measurement"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-amber-700">Weigh the bowl every few days to track its drying.</p>
+        )}
+
+        {/* New measurement form - owners only */}
+        {canEdit && (
+          <form onSubmit={handleAdd} className="grid grid-cols-3 gap-2 items-end pt-2 border-t">
+            <div>
+              <Label htmlFor="measuredAt" className="text-xs">
+                Date
+              </Label>
+              <Input
+                id="measuredAt"
+                type="date"
+                value={form.measuredAt}
+                onChange={(e) => setForm({ ...form, measuredAt: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="weight" className="text-xs">
+                Weight (g)
+              </Label>
+              <Input
+                id="weight"
+                type="number"
+                min="0"
+                step="0.1"
+                value={form.weight}
+                onChange={(e) => setForm({ ...form, weight: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="moisture" className="text-xs">
+                Moisture (%)
+              </Label>
+              <Input
+                id="moisture"
+                type="number"
+                min="0"
+                max="100"
+                step="0.1"
+                value={form.moisture}
+                onChange={(e) => setForm({ ...form, moisture: e.target.value })}
+              />
+            </div>
+            <Button type="submit" disabled={saving} className="col-span-3 bg-amber-600 hover:bg-amber-700">
+              {saving ? "Saving..." : "Log Measurement"}
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
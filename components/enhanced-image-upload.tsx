@@ -10,7 +10,14 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Progress } from "@/components/ui/progress"
-import { processImage, validateImageFile, getImageDimensions, type ProcessedImage } from "@/lib/image-processing"
+import {
+  processImage,
+  validateImageFile,
+  getImageDimensions,
+  getVariantData,
+  type ProcessedImage,
+} from "@/lib/image-processing"
+import { readImageMetadata, type ImageMetadata } from "@/lib/exif"
 
 export interface ProcessedImageData {
   id: string
@@ -18,6 +25,7 @@ export interface ProcessedImageData {
   processed: ProcessedImage
   dimensions: { width: number; height: number }
   fileSize: number
+  metadata: ImageMetadata
   isNew: boolean
 }
 
@@ -71,6 +79,9 @@ export default function EnhancedImageUpload({
           // Get original dimensions
           const dimensions = await getImageDimensions(file)
 
+          // Read capture details before resizing discards the EXIF data
+          const metadata = await readImageMetadata(file)
+
           // Process image (resize and compress)
           const processed = await processImage(file)
 
@@ -80,6 +91,7 @@ export default function EnhancedImageUpload({
             processed,
             dimensions,
             fileSize: file.size,
+            metadata,
             isNew: true,
           }
 
@@ -214,7 +226,7 @@ export default function EnhancedImageUpload({
               <CardContent className="p-2">
                 <div className="relative aspect-square">
                   <Image
-                    src={imageData.processed.medium || "/placeholder.svg"}
+                    src={getVariantData(imageData.processed, "medium") || "/placeholder.svg"}
                     alt={`Upload ${index + 1}`}
                     fill
                     className="object-cover rounded-md"
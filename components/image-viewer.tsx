@@ -1,7 +1,8 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import Image from "next/image"
+import type { StoredImageVariant } from "@/lib/supabase"
+import BowlPicture from "@/components/bowl-picture"
 import { Dialog, DialogContent } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
@@ -15,6 +16,7 @@ interface ImageData {
   original: string
   dimensions?: { width: number; height: number }
   fileSize?: number
+  variants?: StoredImageVariant[]
 }
 
 interface ImageViewerProps {
@@ -154,7 +156,9 @@ export default function ImageViewer({ images, initialIndex = 0, isOpen, onClose
                 transform: `scale(${zoom}) rotate(${rotation}deg)`,
               }}
             >
-              <Image
+              <BowlPicture
+                variants={currentImage?.variants}
+                size="full"
                 src={currentImage?.full || "/placeholder.svg?height=800&width=800"}
                 alt={`Bowl image ${safeIndex + 1}`}
                 width={800}
@@ -232,7 +236,9 @@ export default function ImageViewer({ images, initialIndex = 0, isOpen, onClose
                       index === safeIndex ? "ring-2 ring-white" : "opacity-60 hover:opacity-80"
                     }`}
                   >
-                    <Image
+                    <BowlPicture
+                      variants={image?.variants}
+                      size="thumbnail"
                       src={image?.thumbnail || "/placeholder.svg?height=75&width=75"}
                       alt={`Thumbnail ${index + 1}`}
                       fill
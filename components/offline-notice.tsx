@@ -0,0 +1,17 @@
+import { WifiOff } from "lucide-react"
+
+interface OfflineNoticeProps {
+  lastSyncedAt: string
+}
+
+// Shown when a page is rendering from the offline replica instead of live data
+export function OfflineNotice({ lastSyncedAt }: OfflineNoticeProps) {
+  return (
+    <div className="mb-6 bg-amber-50 border border-amber-200 rounded-md p-3 text-amber-800 text-sm flex items-center gap-2">
+      <WifiOff className="w-4 h-4 flex-shrink-0" />
+      <span>
+        Showing your offline copy · last synced {new Date(lastSyncedAt).toLocaleString()}
+      </span>
+    </div>
+  )
+}
@@ -3,8 +3,10 @@
 import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent } from "@/components/ui/card"
-import { Download, WifiOff, Smartphone, X } from "lucide-react"
+import { Download, WifiOff, Smartphone, X, CloudUpload, Loader2 } from "lucide-react"
 import { pwaInstaller, networkManager } from "@/lib/pwa-utils"
+import { outboxSync, type OutboxStatus } from "@/lib/offline-outbox"
+import { replicaSync } from "@/lib/offline-replica"
 
 export default function PWAStatus() {
   const [canInstall, setCanInstall] = useState(false)
@@ -12,6 +14,7 @@ export default function PWAStatus() {
   const [showInstallPrompt, setShowInstallPrompt] = useState(false)
   const [showOfflineBanner, setShowOfflineBanner] = useState(false)
   const [mounted, setMounted] = useState(false)
+  const [outboxStatus, setOutboxStatus] = useState<OutboxStatus>(outboxSync.getStatus())
 
   useEffect(() => {
     setMounted(true)
@@ -32,6 +35,13 @@ export default function PWAStatus() {
       }
     })
 
+    // Replay bowls saved while offline and track how many are still pending
+    const unsubscribeOutbox = outboxSync.onStatusChange(setOutboxStatus)
+    outboxSync.start()
+
+    // Keep a local copy of the collection for reading offline
+    replicaSync.start()
+
     // Show install prompt after delay if not installed
     const timer = setTimeout(() => {
       if (pwaInstaller && pwaInstaller.canInstall() && !pwaInstaller.isAppInstalled()) {
@@ -41,6 +51,7 @@ export default function PWAStatus() {
 
     return () => {
       unsubscribeNetwork()
+      unsubscribeOutbox()
       clearTimeout(timer)
     }
   }, [])
@@ -63,7 +74,7 @@ export default function PWAStatus() {
     <>
       {/* Offline Banner */}
       {showOfflineBanner && !isOnline && (
-        <div className="fixed top-16 left-4 right-4 z-40">
+        <div className="fixed top-16 left-4 right-4 z-40 print:hidden">
           <Card className="border-yellow-200 bg-yellow-50">
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
@@ -82,9 +93,40 @@ export default function PWAStatus() {
         </div>
       )}
 
+      {/* Pending Sync Indicator */}
+      {outboxStatus.pending > 0 && (
+        <div className="fixed bottom-4 right-4 z-40 max-w-xs print:hidden">
+          <Card className="border-amber-200 bg-amber-50">
+            <CardContent className="p-3">
+              <div className="flex items-center gap-3">
+                {outboxStatus.syncing ? (
+                  <Loader2 className="w-4 h-4 text-amber-600 animate-spin" />
+                ) : (
+                  <CloudUpload className="w-4 h-4 text-amber-600" />
+                )}
+                <div className="text-sm text-amber-800">
+                  <div>
+                    {outboxStatus.syncing ? "Syncing" : "Waiting to sync"}: {outboxStatus.pending} bowl
+                    {outboxStatus.pending !== 1 ? "s" : ""}
+                  </div>
+                  {outboxStatus.lastError && !outboxStatus.syncing && (
+                    <div className="text-xs text-red-600 truncate">{outboxStatus.lastError}</div>
+                  )}
+                </div>
+                {isOnline && !outboxStatus.syncing && (
+                  <Button variant="outline" size="sm" onClick={() => outboxSync.sync()}>
+                    Sync now
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
       {/* Install Prompt */}
       {showInstallPrompt && canInstall && (
-        <div className="fixed bottom-4 left-4 right-4 z-40">
+        <div className="fixed bottom-4 left-4 right-4 z-40 print:hidden">
           <Card className="border-blue-200 bg-blue-50">
             <CardContent className="p-4">
               <div className="flex items-center justify-between">
@@ -0,0 +1,28 @@
+import { SNIPPET_END, SNIPPET_START } from "@/lib/bowl-query"
+
+interface SearchSnippetProps {
+  snippet: string
+  className?: string
+}
+
+/**
+ * Render a search snippet with matched words highlighted.
+ * Matches are delimited by control characters rather than HTML so user content is never injected as markup.
+ */
+export function SearchSnippet({ snippet, className }: SearchSnippetProps) {
+  const parts = snippet.split(SNIPPET_START)
+
+  return (
+    <p className={className}>
+      {parts.map((part, index) => {
+        const [match, rest] = index === 0 ? ["", part] : part.split(SNIPPET_END)
+        return (
+          <span key={index}>
+            {match && <mark className="bg-amber-200 text-amber-900 rounded-sm px-0.5">{match}</mark>}
+            {rest}
+          </span>
+        )
+      })}
+    </p>
+  )
+}
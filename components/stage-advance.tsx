@@ -0,0 +1,78 @@
+"use client"
+
+import { ArrowRight, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { StageBadge } from "@/components/stage-badge"
+import { getNextStage, STAGE_LABELS } from "@/lib/stages"
+import type { BowlStageName } from "@/lib/supabase"
+
+interface StageAdvanceProps {
+  currentStage: BowlStageName
+  advancing: boolean
+  note: string
+  onAdvancingChange: (advancing: boolean) => void
+  onNoteChange: (note: string) => void
+  disabled?: boolean
+}
+
+/**
+ * Lets the user queue a move to the next lifecycle stage.
+ * The transition is only recorded when the surrounding form is saved.
+ */
+export default function StageAdvance({
+  currentStage,
+  advancing,
+  note,
+  onAdvancingChange,
+  onNoteChange,
+  disabled = false,
+}: StageAdvanceProps) {
+  const nextStage = getNextStage(currentStage)
+
+  return (
+    <div className="space-y-2">
+      <Label>Stage</Label>
+      <div className="flex items-center gap-2">
+        <StageBadge stage={currentStage} />
+        {advancing && nextStage && (
+          <>
+            <ArrowRight className="w-4 h-4 text-amber-600" />
+            <StageBadge stage={nextStage} />
+          </>
+        )}
+      </div>
+
+      {nextStage &&
+        (advancing ? (
+          <div className="flex gap-2">
+            <Input
+              value={note}
+              onChange={(e) => onNoteChange(e.target.value)}
+              placeholder="Note for this stage (optional)"
+              disabled={disabled}
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              onClick={() => {
+                onAdvancingChange(false)
+                onNoteChange("")
+              }}
+              disabled={disabled}
+              aria-label="Cancel stage change"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ) : (
+          <Button type="button" variant="outline" size="sm" onClick={() => onAdvancingChange(true)} disabled={disabled}>
+            <ArrowRight className="w-4 h-4 mr-2" />
+            Advance to {STAGE_LABELS[nextStage]}
+          </Button>
+        ))}
+    </div>
+  )
+}
@@ -0,0 +1,17 @@
+import { Badge } from "@/components/ui/badge"
+import { STAGE_COLORS, STAGE_LABELS } from "@/lib/stages"
+import type { BowlStageName } from "@/lib/supabase"
+import { cn } from "@/lib/utils"
+
+interface StageBadgeProps {
+  stage: BowlStageName
+  className?: string
+}
+
+export function StageBadge({ stage, className }: StageBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn("text-xs", STAGE_COLORS[stage], className)}>
+      {STAGE_LABELS[stage]}
+    </Badge>
+  )
+}
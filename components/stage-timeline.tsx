@@ -0,0 +1,42 @@
+"use client"
+
+import { CheckCircle, Circle } from "lucide-react"
+import { StageBadge } from "@/components/stage-badge"
+import { BOWL_STAGES } from "@/lib/stages"
+import type { BowlStage } from "@/lib/supabase"
+
+interface StageTimelineProps {
+  history: BowlStage[]
+}
+
+export default function StageTimeline({ history }: StageTimelineProps) {
+  if (history.length === 0) {
+    return <p className="text-sm text-amber-700">No stage history recorded yet.</p>
+  }
+
+  const currentStage = history[history.length - 1].stage
+  const remainingStages = BOWL_STAGES.slice(BOWL_STAGES.indexOf(currentStage) + 1)
+
+  return (
+    <ol className="relative border-l border-amber-200 ml-2 space-y-4">
+      {history.map((entry) => (
+        <li key={entry.id} className="ml-4">
+          <CheckCircle className="absolute -left-2 w-4 h-4 text-amber-600 bg-white rounded-full" />
+          <div className="flex items-center gap-2">
+            <StageBadge stage={entry.stage} />
+            <span className="text-xs text-amber-600">{new Date(entry.changed_at).toLocaleDateString()}</span>
+          </div>
+          {entry.note && <p className="text-sm text-amber-700 mt-1">{entry.note}</p>}
+        </li>
+      ))}
+
+      {/* Upcoming stages are shown greyed out so the whole lifecycle is visible */}
+      {remainingStages.map((stage) => (
+        <li key={stage} className="ml-4 opacity-50">
+          <Circle className="absolute -left-2 w-4 h-4 text-gray-400 bg-white rounded-full" />
+          <StageBadge stage={stage} />
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,113 @@
+// Edit conflicts: when a save is rejected because the bowl changed on the server, compare the editor's
+// version with the server's field by field and build a merged version from the user's choices.
+
+import { supabase, getImageUrls, BOWL_WITH_RELATIONS_SELECT, type BowlStageName, type BowlWithRelations } from "./supabase"
+
+export interface BowlVersion {
+  woodType: string
+  woodSource: string
+  dateMade: string
+  comments: string
+  finishes: string[]
+  stage: BowlStageName
+  // Images in display order; `id` is null for images that haven't been saved yet
+  images: { id: string | null; url: string }[]
+}
+
+export interface ServerBowlVersion extends BowlVersion {
+  // Exact updated_at string, to pass back to saveBowl as the new expected version
+  updatedAt: string
+}
+
+// Fields the merge dialog lets the user pick between, in display order
+export const MERGE_FIELDS = {
+  woodType: "Wood type",
+  woodSource: "Wood source",
+  dateMade: "Date made",
+  comments: "Comments",
+  finishes: "Finishes",
+  images: "Images",
+} as const
+
+export type MergeField = keyof typeof MERGE_FIELDS
+export type MergeChoice = "mine" | "theirs"
+
+// Load the bowl as it currently is on the server
+export async function fetchServerBowlVersion(bowlId: string): Promise<ServerBowlVersion | null> {
+  if (!supabase) return null
+
+  const { data, error } = await supabase
+    .from("bowls")
+    .select(BOWL_WITH_RELATIONS_SELECT)
+    .eq("id", bowlId)
+    .is("deleted_at", null)
+    .single()
+
+  if (error || !data) {
+    console.error("Error fetching server version of bowl:", error)
+    return null
+  }
+
+  const bowl = data as BowlWithRelations
+  const images = [...(bowl.bowl_images || [])].sort((a, b) => a.display_order - b.display_order)
+
+  return {
+    woodType: bowl.wood_type,
+    woodSource: bowl.wood_source,
+    dateMade: bowl.date_made,
+    comments: bowl.comments || "",
+    finishes: (bowl.bowl_finishes || []).map((finish) => finish.finish_name),
+    stage: bowl.current_stage,
+    images: images.map((image) => ({ id: image.id, url: getImageUrls(image).thumbnail })),
+    updatedAt: bowl.updated_at,
+  }
+}
+
+const savedImageIds = (version: BowlVersion) =>
+  version.images.filter((image) => image.id !== null).map((image) => image.id)
+
+const sameList = (a: unknown[], b: unknown[]) => a.length === b.length && a.every((value, i) => value === b[i])
+
+// Fields whose values differ between the two versions.
+// Finishes are compared as a set; images by the order of saved images, since unsaved ones are kept either way.
+export function diffBowlVersions(mine: BowlVersion, theirs: BowlVersion): MergeField[] {
+  return (Object.keys(MERGE_FIELDS) as MergeField[]).filter((field) => {
+    switch (field) {
+      case "finishes":
+        return !sameList([...mine.finishes].sort(), [...theirs.finishes].sort())
+      case "images":
+        return !sameList(savedImageIds(mine), savedImageIds(theirs))
+      default:
+        return mine[field] !== theirs[field]
+    }
+  })
+}
+
+/**
+ * Combine the versions, taking each field from `theirs` unless the user chose "mine".
+ * Images the user added in the editor are kept whichever side is chosen, and the stage
+ * always comes from the server.
+ */
+export function mergeBowlVersions(
+  mine: BowlVersion,
+  theirs: BowlVersion,
+  choices: Partial<Record<MergeField, MergeChoice>>,
+): BowlVersion {
+  const pick = <K extends MergeField>(field: K) => (choices[field] === "mine" ? mine[field] : theirs[field])
+  const newImages = mine.images.filter((image) => image.id === null)
+  const serverImageIds = new Set(savedImageIds(theirs))
+
+  return {
+    woodType: pick("woodType"),
+    woodSource: pick("woodSource"),
+    dateMade: pick("dateMade"),
+    comments: pick("comments"),
+    finishes: pick("finishes"),
+    stage: theirs.stage,
+    images:
+      choices.images === "mine"
+        ? // Images deleted on the server can't be brought back
+          mine.images.filter((image) => image.id === null || serverImageIds.has(image.id))
+        : [...theirs.images, ...newImages],
+  }
+}
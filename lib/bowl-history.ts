@@ -0,0 +1,154 @@
+// Revision history for a bowl: loading the snapshots written by the database triggers,
+// turning consecutive snapshots into field-level changes, and restoring an earlier version.
+
+import { supabase, type BowlStageName } from "./supabase"
+import { STAGE_LABELS } from "./stages"
+import { saveBowl } from "./bowl-save"
+import { fetchServerBowlVersion } from "./bowl-conflict"
+
+// Mirrors bowl_revision_snapshot() in scripts/14-add-bowl-revisions.sql
+export interface RevisionSnapshot {
+  wood_type: string
+  wood_source: string
+  date_made: string
+  comments: string | null
+  current_stage: BowlStageName
+  dried_at: string | null
+  finishes: string[]
+  // Image IDs in display order
+  images: string[]
+}
+
+export interface BowlRevision {
+  id: string
+  bowl_id: string
+  changed_at: string
+  user_id: string | null
+  snapshot: RevisionSnapshot
+  authorName: string
+}
+
+export interface RevisionChange {
+  field: string
+  before: string
+  after: string
+}
+
+// Newest first, with each author's display name; empty if the history can't be loaded
+export async function getBowlRevisions(bowlId: string): Promise<BowlRevision[]> {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from("bowl_revisions")
+    .select("id, bowl_id, changed_at, user_id, snapshot")
+    .eq("bowl_id", bowlId)
+    .order("changed_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching bowl revisions:", error)
+    return []
+  }
+
+  const userIds = [...new Set(data.map((revision) => revision.user_id).filter((id): id is string => !!id))]
+  const names = new Map<string, string>()
+
+  if (userIds.length > 0) {
+    const { data: profiles, error: profilesError } = await supabase
+      .from("profiles")
+      .select("id, full_name, email")
+      .in("id", userIds)
+
+    if (profilesError) {
+      console.error("Error fetching revision authors:", profilesError)
+    }
+    profiles?.forEach((profile) => names.set(profile.id, profile.full_name || profile.email || "Unknown"))
+  }
+
+  return data.map((revision) => ({
+    ...revision,
+    snapshot: revision.snapshot as RevisionSnapshot,
+    authorName: (revision.user_id && names.get(revision.user_id)) || "Unknown",
+  }))
+}
+
+const formatDate = (date: string | null) => (date ? new Date(date).toLocaleDateString() : "-")
+
+const describeImages = (before: string[], after: string[]) => {
+  const added = after.filter((id) => !before.includes(id)).length
+  const removed = before.filter((id) => !after.includes(id)).length
+  const parts = []
+  if (added > 0) parts.push(`${added} added`)
+  if (removed > 0) parts.push(`${removed} removed`)
+  if (parts.length === 0) parts.push("reordered")
+  return parts.join(", ")
+}
+
+/**
+ * Field-level differences between two snapshots.
+ * With no `before` (the first revision) every non-empty field is listed as the starting value.
+ */
+export function diffRevisionSnapshots(before: RevisionSnapshot | null, after: RevisionSnapshot): RevisionChange[] {
+  const fields: [string, (snapshot: RevisionSnapshot) => string][] = [
+    ["Wood type", (snapshot) => snapshot.wood_type],
+    ["Wood source", (snapshot) => snapshot.wood_source],
+    ["Date made", (snapshot) => formatDate(snapshot.date_made)],
+    ["Comments", (snapshot) => snapshot.comments || ""],
+    ["Stage", (snapshot) => STAGE_LABELS[snapshot.current_stage] ?? snapshot.current_stage],
+    ["Dried", (snapshot) => (snapshot.dried_at ? formatDate(snapshot.dried_at) : "")],
+    ["Finishes", (snapshot) => snapshot.finishes.join(", ")],
+  ]
+
+  const changes: RevisionChange[] = []
+
+  fields.forEach(([field, read]) => {
+    const beforeValue = before ? read(before) : ""
+    const afterValue = read(after)
+    if (beforeValue !== afterValue) {
+      changes.push({ field, before: beforeValue, after: afterValue })
+    }
+  })
+
+  const beforeImages = before?.images ?? []
+  if (beforeImages.join() !== after.images.join()) {
+    changes.push({
+      field: "Images",
+      before: `${beforeImages.length} images`,
+      after: before ? `${after.images.length} images (${describeImages(beforeImages, after.images)})` : `${after.images.length} images`,
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Save the bowl back to an earlier snapshot as a new revision.
+ * Fields, dry date, finishes and stage are restored and images are put back in their old order,
+ * including ones removed since (save_bowl keeps them while a revision shows them). Images added since
+ * are kept at the end; ones deleted before removed images were kept are left out.
+ */
+export async function restoreBowlRevision(bowlId: string, snapshot: RevisionSnapshot): Promise<void> {
+  const current = await fetchServerBowlVersion(bowlId)
+  if (!current) {
+    throw new Error("Could not load the current version of this bowl")
+  }
+
+  const currentImageIds = current.images.map((image) => image.id as string)
+  const imageIds = [...snapshot.images, ...currentImageIds.filter((id) => !snapshot.images.includes(id))]
+
+  await saveBowl(
+    bowlId,
+    {
+      woodType: snapshot.wood_type,
+      woodSource: snapshot.wood_source,
+      dateMade: snapshot.date_made,
+      comments: snapshot.comments || "",
+      finishes: snapshot.finishes,
+      // Going back a stage is still recorded in the stage history
+      stage: snapshot.current_stage !== current.stage ? snapshot.current_stage : undefined,
+      stageNote: "Restored from an earlier version",
+      driedAt: snapshot.dried_at,
+    },
+    imageIds.map((id) => ({ id })),
+    { expectedUpdatedAt: current.updatedAt },
+  )
+}
@@ -0,0 +1,202 @@
+// Spreadsheet import: map CSV columns onto bowl fields, validate every row, then save them for the current user
+
+import type { BowlStageName } from "./supabase"
+import { saveBowl } from "./bowl-save"
+
+// Bowl fields a CSV column can be mapped to
+export const IMPORT_FIELDS = {
+  wood_type: { label: "Wood type", required: true },
+  wood_source: { label: "Wood source", required: false },
+  date_made: { label: "Date made", required: true },
+  comments: { label: "Comments", required: false },
+  finishes: { label: "Finishes", required: false },
+} as const
+
+export type ImportField = keyof typeof IMPORT_FIELDS
+
+// Column index for each field, or null when the field isn't in the spreadsheet
+export type ColumnMapping = Record<ImportField, number | null>
+
+export interface ImportRow {
+  // Line number in the original file (the header is line 1)
+  line: number
+  wood_type: string
+  wood_source: string
+  date_made: string
+  comments: string | null
+  finishes: string[]
+}
+
+export interface ImportRowError {
+  line: number
+  message: string
+}
+
+export interface ImportValidation {
+  rows: ImportRow[]
+  errors: ImportRowError[]
+}
+
+// Header names we recognise for each field when guessing the mapping
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  wood_type: ["woodtype", "wood", "species", "type"],
+  wood_source: ["woodsource", "source", "origin", "from"],
+  date_made: ["datemade", "date", "made", "completed"],
+  comments: ["comments", "comment", "notes", "note", "description"],
+  finishes: ["finishes", "finish", "finishing"],
+}
+
+// Imported records are historical, so they start out finished
+const IMPORTED_STAGE: BowlStageName = "finished"
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z]/g, "")
+
+// Pick a column for each field based on the header row. Each column is used at most once.
+export function guessColumnMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader)
+  const used = new Set<number>()
+  const mapping = {} as ColumnMapping
+
+  for (const field of Object.keys(IMPORT_FIELDS) as ImportField[]) {
+    const index = HEADER_ALIASES[field]
+      .map((alias) => normalized.findIndex((header, i) => header === alias && !used.has(i)))
+      .find((i) => i !== -1)
+
+    mapping[field] = index ?? null
+    if (index !== undefined) used.add(index)
+  }
+
+  return mapping
+}
+
+const isValidDate = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+/**
+ * Parse a spreadsheet date into YYYY-MM-DD.
+ * Accepts ISO dates (2021-06-30, 2021/06/30) and US-style dates (6/30/2021). Returns null if invalid.
+ */
+export function parseImportDate(value: string): string | null {
+  const trimmed = value.trim()
+
+  const iso = trimmed.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[T ].*)?$/)
+  if (iso) {
+    const [year, month, day] = iso.slice(1).map(Number)
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null
+  }
+
+  const us = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/)
+  if (us) {
+    const [month, day] = us.slice(1, 3).map(Number)
+    let year = Number(us[3])
+    // Two-digit years are assumed to be this century unless that would put them in the future
+    if (us[3].length === 2) {
+      year += 2000
+      if (year > new Date().getFullYear()) year -= 100
+    }
+    return isValidDate(year, month, day) ? `${year}-${pad(month)}-${pad(day)}` : null
+  }
+
+  return null
+}
+
+/**
+ * Dry run: turn the data rows into bowls using the mapping, collecting an error for every row that can't be imported.
+ * `dataRows` excludes the header row.
+ */
+export function validateImportRows(
+  dataRows: string[][],
+  mapping: ColumnMapping,
+  finishDelimiter: string,
+): ImportValidation {
+  const rows: ImportRow[] = []
+  const errors: ImportRowError[] = []
+  const today = new Date().toISOString().split("T")[0]
+
+  const cell = (row: string[], field: ImportField) => {
+    const index = mapping[field]
+    return index === null ? "" : (row[index] ?? "").trim()
+  }
+
+  dataRows.forEach((row, i) => {
+    const line = i + 2
+    const rowErrors: string[] = []
+
+    const woodType = cell(row, "wood_type")
+    if (!woodType) {
+      rowErrors.push("Wood type is empty")
+    }
+
+    const rawDate = cell(row, "date_made")
+    const dateMade = rawDate ? parseImportDate(rawDate) : null
+    if (!rawDate) {
+      rowErrors.push("Date made is empty")
+    } else if (!dateMade) {
+      rowErrors.push(`"${rawDate}" is not a valid date`)
+    } else if (dateMade > today) {
+      rowErrors.push(`Date made ${dateMade} is in the future`)
+    }
+
+    if (rowErrors.length > 0) {
+      rowErrors.forEach((message) => errors.push({ line, message }))
+      return
+    }
+
+    const rawFinishes = cell(row, "finishes")
+    const finishes = rawFinishes
+      ? [...new Set(rawFinishes.split(finishDelimiter || ";").map((finish) => finish.trim()).filter(Boolean))]
+      : []
+
+    rows.push({
+      line,
+      wood_type: woodType,
+      wood_source: cell(row, "wood_source"),
+      date_made: dateMade!,
+      comments: cell(row, "comments") || null,
+      finishes,
+    })
+  })
+
+  return { rows, errors }
+}
+
+/**
+ * Save validated rows as new bowls for the signed-in user.
+ * Each bowl is saved with its stage and finishes in one transaction; the first failure stops the import.
+ */
+export async function importBowls(
+  rows: ImportRow[],
+  onProgress?: (done: number, total: number) => void,
+): Promise<number> {
+  onProgress?.(0, rows.length)
+
+  for (const [imported, row] of rows.entries()) {
+    try {
+      await saveBowl(
+        crypto.randomUUID(),
+        {
+          woodType: row.wood_type,
+          woodSource: row.wood_source,
+          dateMade: row.date_made,
+          comments: row.comments ?? "",
+          finishes: row.finishes,
+          stage: IMPORTED_STAGE,
+          stageNote: "Imported from spreadsheet",
+        },
+        [],
+        { create: true },
+      )
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error"
+      throw new Error(`Failed to import line ${row.line} (${imported} bowls already imported): ${message}`)
+    }
+
+    onProgress?.(imported + 1, rows.length)
+  }
+
+  return rows.length
+}
@@ -0,0 +1,211 @@
+import {
+  supabase,
+  mapBowlsWithRelationsToFrontend,
+  BOWL_WITH_RELATIONS_SELECT,
+  type BowlWithRelations,
+  type FrontendBowl,
+} from "./supabase"
+
+// Sort options offered on the home page grid, mapped to bowl_list columns
+export const BOWL_SORT_OPTIONS = {
+  date_made: { label: "Date made", column: "date_made" },
+  created_at: { label: "Date added", column: "created_at" },
+  wood_type: { label: "Wood type", column: "wood_type" },
+  creator: { label: "Creator", column: "creator_name" },
+} as const
+
+export type BowlSort = keyof typeof BOWL_SORT_OPTIONS
+
+export const DEFAULT_PAGE_SIZE = 24
+
+// Grid view state - everything here round-trips through the URL query string
+export interface BowlQuery {
+  q: string // Free-text search
+  page: number
+  sort: BowlSort
+  ascending: boolean
+  woodType: string
+  finish: string
+  creator: string // Creator user_id
+  from: string // Earliest date_made (YYYY-MM-DD)
+  to: string // Latest date_made (YYYY-MM-DD)
+}
+
+export const DEFAULT_BOWL_QUERY: BowlQuery = {
+  q: "",
+  page: 1,
+  sort: "date_made",
+  ascending: false,
+  woodType: "",
+  finish: "",
+  creator: "",
+  from: "",
+  to: "",
+}
+
+export interface BowlPage {
+  bowls: FrontendBowl[]
+  total: number
+  pageCount: number
+  snippets: Record<string, string> // Highlighted search snippets by bowl id, only set for text searches
+}
+
+// Markers the search_bowls function wraps around matched words in snippets
+export const SNIPPET_START = "\u0002"
+export const SNIPPET_END = "\u0003"
+
+export interface Creator {
+  id: string
+  name: string
+}
+
+const isDate = (value: string | null): value is string => !!value && /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+// Read grid state from URL search params, ignoring anything malformed
+export function parseBowlQuery(params: URLSearchParams): BowlQuery {
+  const page = Number.parseInt(params.get("page") || "", 10)
+  const sort = params.get("sort")
+
+  return {
+    q: params.get("q") || "",
+    page: Number.isFinite(page) && page > 0 ? page : DEFAULT_BOWL_QUERY.page,
+    sort: sort && sort in BOWL_SORT_OPTIONS ? (sort as BowlSort) : DEFAULT_BOWL_QUERY.sort,
+    ascending: params.get("dir") === "asc",
+    woodType: params.get("wood") || "",
+    finish: params.get("finish") || "",
+    creator: params.get("creator") || "",
+    from: isDate(params.get("from")) ? params.get("from")! : "",
+    to: isDate(params.get("to")) ? params.get("to")! : "",
+  }
+}
+
+// Write grid state to a query string, leaving out defaults so URLs stay short
+export function serializeBowlQuery(query: BowlQuery): string {
+  const params = new URLSearchParams()
+
+  if (query.q) params.set("q", query.q)
+  if (query.page !== DEFAULT_BOWL_QUERY.page) params.set("page", String(query.page))
+  if (query.sort !== DEFAULT_BOWL_QUERY.sort) params.set("sort", query.sort)
+  if (query.ascending) params.set("dir", "asc")
+  if (query.woodType) params.set("wood", query.woodType)
+  if (query.finish) params.set("finish", query.finish)
+  if (query.creator) params.set("creator", query.creator)
+  if (query.from) params.set("from", query.from)
+  if (query.to) params.set("to", query.to)
+
+  return params.toString()
+}
+
+// Escape LIKE wildcards so user input is matched literally
+const likePattern = (value: string) => `%${value.replace(/[\\%_]/g, (c) => `\\${c}`)}%`
+
+// Run a ranked full-text search, then load the matching bowls with their relations.
+// Results are always ordered by relevance; the sort option only applies to unfiltered browsing.
+async function searchBowlPage(query: BowlQuery, pageSize: number): Promise<BowlPage> {
+  if (!supabase) {
+    throw new Error("Supabase not configured")
+  }
+
+  const { data: matches, error: searchError } = await supabase.rpc("search_bowls", {
+    search_text: query.q,
+    wood_filter: query.woodType || null,
+    finish_filter: query.finish || null,
+    creator_filter: query.creator || null,
+    date_from: query.from || null,
+    date_to: query.to || null,
+    result_limit: pageSize,
+    result_offset: (query.page - 1) * pageSize,
+  })
+
+  if (searchError) {
+    throw new Error(`Search failed: ${searchError.message}`)
+  }
+
+  const results = (matches || []) as { bowl_id: string; rank: number; snippet: string; total_count: number }[]
+  const total = results.length > 0 ? Number(results[0].total_count) : 0
+  const pageCount = Math.max(1, Math.ceil(total / pageSize))
+
+  if (results.length === 0) {
+    return { bowls: [], total, pageCount, snippets: {} }
+  }
+
+  const ids = results.map((result) => result.bowl_id)
+  const { data, error } = await supabase.from("bowl_list").select(BOWL_WITH_RELATIONS_SELECT).in("id", ids)
+
+  if (error) {
+    throw new Error(`Failed to fetch bowls: ${error.message}`)
+  }
+
+  // Restore relevance order, which in() does not preserve
+  const bowls = await mapBowlsWithRelationsToFrontend((data || []) as unknown as BowlWithRelations[], "newest-first")
+  bowls.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id))
+
+  return {
+    bowls,
+    total,
+    pageCount,
+    snippets: Object.fromEntries(results.map((result) => [result.bowl_id, result.snippet])),
+  }
+}
+
+// Fetch one page of bowls with sorting and filtering applied in the database
+export async function fetchBowlPage(query: BowlQuery, pageSize: number = DEFAULT_PAGE_SIZE): Promise<BowlPage> {
+  if (!supabase) {
+    throw new Error("Supabase not configured")
+  }
+
+  if (query.q.trim()) {
+    return searchBowlPage(query, pageSize)
+  }
+
+  // When filtering by finish, embed a second inner-joined copy of bowl_finishes to restrict the bowls
+  // while still returning every finish for display
+  const select = query.finish
+    ? `${BOWL_WITH_RELATIONS_SELECT}, finish_filter:bowl_finishes!inner(finish_name)`
+    : BOWL_WITH_RELATIONS_SELECT
+
+  let request = supabase.from("bowl_list").select(select, { count: "exact" })
+
+  if (query.woodType) request = request.ilike("wood_type", likePattern(query.woodType))
+  if (query.finish) request = request.ilike("finish_filter.finish_name", likePattern(query.finish))
+  if (query.creator) request = request.eq("user_id", query.creator)
+  if (query.from) request = request.gte("date_made", query.from)
+  if (query.to) request = request.lte("date_made", query.to)
+
+  const fromRow = (query.page - 1) * pageSize
+  const { data, error, count } = await request
+    .order(BOWL_SORT_OPTIONS[query.sort].column, { ascending: query.ascending })
+    .order("id", { ascending: true }) // Tie-breaker keeps paging stable
+    .range(fromRow, fromRow + pageSize - 1)
+
+  if (error) {
+    throw new Error(`Failed to fetch bowls: ${error.message}`)
+  }
+
+  const total = count ?? 0
+  return {
+    bowls: await mapBowlsWithRelationsToFrontend((data || []) as unknown as BowlWithRelations[], "newest-first"),
+    total,
+    pageCount: Math.max(1, Math.ceil(total / pageSize)),
+    snippets: {},
+  }
+}
+
+// Load all user profiles for the creator filter
+export async function fetchCreators(): Promise<Creator[]> {
+  if (!supabase) {
+    return []
+  }
+
+  const { data, error } = await supabase.from("profiles").select("id, full_name, email").order("full_name")
+
+  if (error) {
+    console.error("Error fetching creators:", error)
+    return []
+  }
+
+  return (data || []).map((profile) => ({
+    id: profile.id,
+    name: profile.full_name || profile.email || "Unknown",
+  }))
+}
@@ -0,0 +1,170 @@
+import { supabase, getImageVariant, type BowlStageName } from "./supabase"
+import { deleteImageSet, getUploadedPaths, uploadImageSet, type UploadedImageSet } from "./storage"
+import type { ImageDimensions, ProcessedImage } from "./image-processing"
+import type { ImageMetadata } from "./exif"
+import { getKeepCaptureDetails } from "./profile"
+
+// Everything needed to create a bowl, independent of where the form data came from
+export interface NewBowlInput {
+  woodType: string
+  woodSource: string
+  dateMade: string
+  comments: string
+  stage: BowlStageName
+  stageNote: string
+  finishes: string[]
+}
+
+export interface NewBowlImage {
+  processed: ProcessedImage
+  fileSize: number
+  dimensions: { width: number; height: number }
+  metadata?: ImageMetadata // Read from the photo's EXIF before resizing discards it; only stored if the user allows it
+}
+
+// Bowl fields saved by saveBowl. `stage` is recorded as a history entry: the starting stage
+// when creating, or the next stage when an edit advances the bowl.
+export interface BowlSaveInput {
+  woodType: string
+  woodSource: string
+  dateMade: string
+  comments: string
+  finishes: string[]
+  stage?: BowlStageName
+  stageNote?: string
+  driedAt?: string | null // Left out to keep the bowl's current dry date
+}
+
+export interface SaveBowlOptions {
+  // Insert a new bowl under the given ID instead of updating an existing one
+  create?: boolean
+  // The `updated_at` the editor loaded (the exact string from the database), to detect conflicting edits
+  expectedUpdatedAt?: string
+  onProgress?: (uploaded: number, total: number) => void
+}
+
+// One entry per image in display order: an existing image by ID, or a new image to upload
+export type BowlImageEntry = { id: string } | NewBowlImage
+
+// SQLSTATE raised by save_bowl when the bowl changed after the editor loaded it
+const CONFLICT_ERROR_CODE = "40001"
+
+// Thrown by saveBowl when someone else saved the bowl first; nothing was written
+export class BowlConflictError extends Error {
+  constructor(bowlId: string) {
+    super(`Bowl ${bowlId} was changed by someone else`)
+    this.name = "BowlConflictError"
+  }
+}
+
+// bowl_images columns describing an uploaded image set
+export function imageSetColumns(
+  uploadResult: UploadedImageSet,
+  fileSize: number,
+  dimensions: ImageDimensions,
+  metadata?: ImageMetadata,
+) {
+  // Legacy fields for backward compatibility, pointing at the medium size (always uploaded)
+  const medium = getImageVariant(uploadResult, "medium")!
+
+  return {
+    image_url: medium.url,
+    storage_path: medium.path,
+    variants: uploadResult.variants,
+    file_size: fileSize,
+    original_dimensions: dimensions,
+    captured_at: metadata?.capturedAt ?? null,
+    camera_model: metadata?.cameraModel ?? null,
+  }
+}
+
+/**
+ * Create (with `create`) or update a bowl in one database transaction via the save_bowl function.
+ * New bowls get their ID from the caller, so a retry after a lost response can't create the bowl twice.
+ * New images are uploaded first; if any upload or the transaction fails, the files uploaded for this save
+ * are deleted again and the error is rethrown, so a half-saved bowl is never left behind.
+ * Files of images removed from the list are deleted once the save has committed, unless a revision still
+ * shows the image: save_bowl then keeps it aside so restoring that revision can bring it back.
+ *
+ * When editing, pass the `updated_at` the editor loaded as `expectedUpdatedAt`. If the bowl has been
+ * saved since, a BowlConflictError is thrown instead of overwriting.
+ */
+export async function saveBowl(
+  bowlId: string,
+  input: BowlSaveInput,
+  images: BowlImageEntry[],
+  { create = false, expectedUpdatedAt, onProgress }: SaveBowlOptions = {},
+): Promise<void> {
+  if (!supabase) {
+    throw new Error("Supabase client not initialized")
+  }
+
+  const uploadedPaths: string[] = []
+  const newImageCount = images.filter((image) => !("id" in image)).length
+  let uploadedCount = 0
+  let outcomeUnknown = false
+
+  try {
+    const imageRows: Record<string, unknown>[] = []
+    const keepCaptureDetails = newImageCount > 0 && (await getKeepCaptureDetails())
+
+    for (const image of images) {
+      if ("id" in image) {
+        imageRows.push({ id: image.id })
+        continue
+      }
+
+      onProgress?.(uploadedCount, newImageCount)
+      const uploadResult = await uploadImageSet(image.processed, bowlId)
+
+      if (!uploadResult) {
+        throw new Error("Image upload failed")
+      }
+
+      uploadedPaths.push(...getUploadedPaths(uploadResult))
+      imageRows.push(
+        imageSetColumns(uploadResult, image.fileSize, image.dimensions, keepCaptureDetails ? image.metadata : undefined),
+      )
+      uploadedCount++
+    }
+    onProgress?.(newImageCount, newImageCount)
+
+    const { data: removedPaths, error } = await supabase.rpc("save_bowl", {
+      p_bowl_id: bowlId,
+      p_fields: {
+        wood_type: input.woodType,
+        wood_source: input.woodSource,
+        date_made: input.dateMade,
+        comments: input.comments,
+        ...(input.driedAt !== undefined && { dried_at: input.driedAt }),
+      },
+      p_finishes: input.finishes,
+      p_images: imageRows,
+      p_create: create,
+      p_stage: input.stage ?? null,
+      p_stage_note: input.stageNote?.trim() || null,
+      p_expected_updated_at: expectedUpdatedAt ?? null,
+    })
+
+    if (error?.code === CONFLICT_ERROR_CODE) {
+      throw new BowlConflictError(bowlId)
+    }
+    if (error) {
+      // No error code means the response never arrived, so the save may have committed
+      outcomeUnknown = !error.code
+      throw new Error(`Failed to save bowl: ${error.message}`)
+    }
+
+    // The rows are gone, so failing to delete the files only leaves orphans for the storage cleanup
+    if (removedPaths && removedPaths.length > 0) {
+      await deleteImageSet(removedPaths as string[])
+    }
+  } catch (error) {
+    // When the save may have committed its rows point at the files, so they're left for the storage cleanup
+    if (uploadedPaths.length > 0 && !outcomeUnknown) {
+      console.log("Save failed, removing uploaded images:", uploadedPaths)
+      await deleteImageSet(uploadedPaths)
+    }
+    throw error
+  }
+}
@@ -0,0 +1,70 @@
+// Small CSV helpers (RFC 4180 quoting) used by the export and import features
+
+// Quote a field only when it contains a delimiter, quote or line break
+function escapeCsvField(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+// Turn rows of fields into CSV text. Null/undefined become empty fields.
+export function toCsv(rows: (string | number | null | undefined)[][]): string {
+  return rows.map((row) => row.map((field) => escapeCsvField(field == null ? "" : String(field))).join(",")).join("\r\n")
+}
+
+/**
+ * Parse CSV text into rows of fields.
+ * Handles quoted fields with embedded commas, quotes and line breaks; blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ""
+  let inQuotes = false
+
+  // Strip a UTF-8 byte order mark left by spreadsheet exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+
+  const endRow = () => {
+    row.push(field)
+    if (row.length > 1 || row[0].trim() !== "") {
+      rows.push(row)
+    }
+    row = []
+    field = ""
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      row.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
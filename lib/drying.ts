@@ -0,0 +1,132 @@
+import { supabase, isSupabaseConfigured, type BowlMeasurement } from "./supabase"
+
+export interface DryingConfig {
+  windowDays: number // How far back to compare weights
+  thresholdPercent: number // Max weight loss over the window for the bowl to count as dry
+}
+
+// Read the drying window from the environment, falling back to sensible defaults
+export const DRYING_CONFIG: DryingConfig = {
+  windowDays: Number(process.env.NEXT_PUBLIC_DRYING_WINDOW_DAYS) || 14,
+  thresholdPercent: Number(process.env.NEXT_PUBLIC_DRYING_THRESHOLD_PERCENT) || 0.5,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Whether the weight had levelled off by measurements[index]: it is within thresholdPercent of the
+// most recent measurement taken at least windowDays earlier
+function isDryAt(measurements: BowlMeasurement[], index: number, config: DryingConfig): boolean {
+  const current = measurements[index]
+  const cutoff = new Date(current.measured_at).getTime() - config.windowDays * DAY_MS
+
+  // Most recent earlier measurement that is still at least a full window before this one
+  const baseline = measurements
+    .slice(0, index)
+    .reverse()
+    .find((m) => new Date(m.measured_at).getTime() <= cutoff)
+  if (!baseline) return false
+
+  const lossPercent = ((baseline.weight_grams - current.weight_grams) / baseline.weight_grams) * 100
+  return lossPercent <= config.thresholdPercent
+}
+
+// Determine when a bowl became dry, or null if its weight is still dropping.
+// Measurements must be sorted oldest first. The bowl is dry if the latest measurement passes the
+// drying check; the dry date is the first measurement of the run of passing ones leading up to it,
+// so later weigh-ins don't move it forward.
+export function getDryDate(measurements: BowlMeasurement[], config: DryingConfig = DRYING_CONFIG): string | null {
+  let first = measurements.length
+  while (first > 0 && isDryAt(measurements, first - 1, config)) {
+    first--
+  }
+
+  return first < measurements.length ? measurements[first].measured_at : null
+}
+
+// Fetch the measurement log for a bowl, oldest first
+export async function getBowlMeasurements(bowlId: string): Promise<BowlMeasurement[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    console.error("Supabase not configured")
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from("bowl_measurements")
+    .select("*")
+    .eq("bowl_id", bowlId)
+    .order("measured_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching measurements:", error)
+    return []
+  }
+
+  return data || []
+}
+
+// Add a measurement to the log
+export async function addBowlMeasurement(
+  bowlId: string,
+  measuredAt: string,
+  weightGrams: number,
+  moisturePercent: number | null,
+): Promise<BowlMeasurement | null> {
+  if (!isSupabaseConfigured() || !supabase) {
+    console.error("Supabase not configured")
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from("bowl_measurements")
+    .insert({
+      bowl_id: bowlId,
+      measured_at: measuredAt,
+      weight_grams: weightGrams,
+      moisture_percent: moisturePercent,
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error("Error adding measurement:", error)
+    return null
+  }
+
+  return data
+}
+
+// Remove a measurement from the log
+export async function deleteBowlMeasurement(measurementId: string): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    console.error("Supabase not configured")
+    return false
+  }
+
+  const { error } = await supabase.from("bowl_measurements").delete().eq("id", measurementId)
+
+  if (error) {
+    console.error("Error deleting measurement:", error)
+    return false
+  }
+
+  return true
+}
+
+// Recalculate and store the bowl's dry date from its measurements.
+// Returns the new dried_at value (null if the bowl is still drying).
+export async function updateBowlDryStatus(bowlId: string, measurements: BowlMeasurement[]): Promise<string | null> {
+  const driedAt = getDryDate(measurements)
+
+  if (!isSupabaseConfigured() || !supabase) {
+    console.error("Supabase not configured")
+    return driedAt
+  }
+
+  const { error } = await supabase.from("bowls").update({ dried_at: driedAt }).eq("id", bowlId)
+
+  if (error) {
+    console.error("Error updating dry status:", error)
+  }
+
+  return driedAt
+}
@@ -0,0 +1,293 @@
+// Minimal EXIF reader for JPEG photos: orientation, capture date and camera.
+// Only the tags we use are decoded; anything unreadable falls back to "no EXIF".
+// GPS, serial number and owner tags are never read, and stripPrivateMetadata removes them before upload.
+
+export interface ImageMetadata {
+  capturedAt: string | null // Camera's local time as YYYY-MM-DDTHH:MM:SS; EXIF rarely records a time zone
+  cameraModel: string | null
+}
+
+export interface ExifData extends ImageMetadata {
+  orientation: number // 1-8 as defined by the EXIF Orientation tag, 1 = upright
+}
+
+const NO_EXIF: ExifData = { orientation: 1, capturedAt: null, cameraModel: null }
+
+// The APP1 segment sits near the start of the file; 128KB covers it even with a large embedded thumbnail
+const HEADER_BYTES = 128 * 1024
+
+const TAG_MAKE = 0x010f
+const TAG_MODEL = 0x0110
+const TAG_ORIENTATION = 0x0112
+const TAG_DATE_TIME = 0x0132
+const TAG_EXIF_IFD = 0x8769
+const TAG_DATE_TIME_ORIGINAL = 0x9003
+
+const TYPE_ASCII = 2
+const TYPE_SHORT = 3
+
+type IfdEntries = Map<number, number> // tag -> offset of its 12-byte entry
+
+// Read the EXIF tags we care about from a JPEG. Other formats (and JPEGs without EXIF) return the defaults.
+export async function readExif(file: Blob): Promise<ExifData> {
+  try {
+    const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer())
+    const tiffStart = findExifSegment(view)
+    return tiffStart === null ? NO_EXIF : parseTiff(view, tiffStart)
+  } catch (error) {
+    // Truncated or malformed EXIF shouldn't stop the photo from being used
+    console.warn("Could not read EXIF data:", error)
+    return NO_EXIF
+  }
+}
+
+// Just the fields stored with an image
+export async function readImageMetadata(file: Blob): Promise<ImageMetadata> {
+  const { capturedAt, cameraModel } = await readExif(file)
+  return { capturedAt, cameraModel }
+}
+
+// Walk the JPEG markers up to the image data and return where the TIFF header of the Exif APP1 starts
+function findExifSegment(view: DataView): number | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null
+
+  let offset = 2
+  while (offset + 4 <= view.byteLength) {
+    if (view.getUint8(offset) !== 0xff) return null
+
+    const marker = view.getUint8(offset + 1)
+    // Start of scan / end of image: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) return null
+
+    const length = view.getUint16(offset + 2)
+    if (marker === 0xe1 && readAscii(view, offset + 4, 4) === "Exif" && view.getUint16(offset + 8) === 0) {
+      return offset + 10
+    }
+
+    offset += 2 + length
+  }
+
+  return null
+}
+
+function parseTiff(view: DataView, tiffStart: number): ExifData {
+  const byteOrder = view.getUint16(tiffStart)
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return NO_EXIF
+
+  const little = byteOrder === 0x4949
+  const ifd0 = readIfd(view, tiffStart, tiffStart + view.getUint32(tiffStart + 4, little), little)
+
+  const orientationEntry = ifd0.get(TAG_ORIENTATION)
+  const orientation = orientationEntry !== undefined ? readShort(view, orientationEntry, little) : 1
+
+  const exifIfdEntry = ifd0.get(TAG_EXIF_IFD)
+  const exifIfd =
+    exifIfdEntry !== undefined
+      ? readIfd(view, tiffStart, tiffStart + view.getUint32(exifIfdEntry + 8, little), little)
+      : new Map()
+
+  const dateEntry = exifIfd.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.get(TAG_DATE_TIME)
+  const make = readAsciiTag(view, tiffStart, ifd0.get(TAG_MAKE), little)
+  const model = readAsciiTag(view, tiffStart, ifd0.get(TAG_MODEL), little)
+
+  return {
+    orientation: orientation >= 1 && orientation <= 8 ? orientation : 1,
+    capturedAt: parseExifDate(readAsciiTag(view, tiffStart, dateEntry, little)),
+    cameraModel: formatCameraModel(make, model),
+  }
+}
+
+function readIfd(view: DataView, tiffStart: number, ifdStart: number, little: boolean): IfdEntries {
+  const entries: IfdEntries = new Map()
+  const count = view.getUint16(ifdStart, little)
+
+  for (let i = 0; i < count; i++) {
+    const entry = ifdStart + 2 + i * 12
+    entries.set(view.getUint16(entry, little), entry)
+  }
+
+  return entries
+}
+
+function readShort(view: DataView, entry: number, little: boolean): number {
+  return view.getUint16(entry + 2, little) === TYPE_SHORT ? view.getUint16(entry + 8, little) : 1
+}
+
+// ASCII values of up to 4 bytes are stored inline, longer ones at an offset from the TIFF header
+function readAsciiTag(view: DataView, tiffStart: number, entry: number | undefined, little: boolean): string | null {
+  if (entry === undefined || view.getUint16(entry + 2, little) !== TYPE_ASCII) return null
+
+  const count = view.getUint32(entry + 4, little)
+  const valueOffset = count <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little)
+  const value = readAscii(view, valueOffset, count).trim()
+  return value || null
+}
+
+function readAscii(view: DataView, offset: number, length: number): string {
+  let value = ""
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint8(offset + i)
+    if (code === 0) break
+    value += String.fromCharCode(code)
+  }
+  return value
+}
+
+// "2024:05:01 14:22:10" -> "2024-05-01T14:22:10"; unset dates are written as zeros or spaces
+function parseExifDate(value: string | null): string | null {
+  const match = value?.match(/^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/)
+  if (!match || match[1] === "0000") return null
+
+  const [, year, month, day, hour, minute, second] = match
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}`
+}
+
+// Most models already start with the maker ("Canon EOS R6"), some don't ("iPhone 15" from "Apple")
+function formatCameraModel(make: string | null, model: string | null): string | null {
+  if (!model) return make
+  if (!make || model.toLowerCase().startsWith(make.toLowerCase())) return model
+  return `${make} ${model}`
+}
+
+/**
+ * Remove every metadata block that could identify where or by whom a photo was taken.
+ * Image data and color profiles are kept as they are. Throws for anything that can't be
+ * checked, so such an image is never uploaded.
+ */
+export function stripPrivateMetadata(bytes: Uint8Array, mimeType = "image/jpeg"): Uint8Array {
+  switch (mimeType) {
+    case "image/jpeg":
+      return stripJpegMetadata(bytes)
+    case "image/webp":
+      return stripWebpMetadata(bytes)
+    case "image/avif":
+      assertNoAvifMetadata(bytes)
+      return bytes
+    default:
+      throw new Error(`${mimeType} images can't be checked for private metadata`)
+  }
+}
+
+// APP1 (EXIF and XMP), APP13 (IPTC) and comments can carry GPS position, serial numbers and owner names
+const PRIVATE_JPEG_SEGMENTS = new Set([0xe1, 0xed, 0xfe])
+
+function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    throw new Error("Not a JPEG image, so it can't be checked for private metadata")
+  }
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)]
+  let offset = 2
+
+  while (true) {
+    if (offset + 4 > bytes.length || bytes[offset] !== 0xff) {
+      throw new Error("Could not read the image headers to remove private metadata")
+    }
+
+    const marker = bytes[offset + 1]
+    // Start of scan: everything from here on is image data
+    if (marker === 0xda) break
+
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3])
+    if (!PRIVATE_JPEG_SEGMENTS.has(marker)) {
+      kept.push(bytes.subarray(offset, end))
+    }
+    offset = end
+  }
+
+  kept.push(bytes.subarray(offset))
+  return concatBytes(kept)
+}
+
+// WebP keeps EXIF and XMP in their own RIFF chunks, flagged in the VP8X header
+function stripWebpMetadata(bytes: Uint8Array): Uint8Array {
+  if (bytes.length < 12 || readFourCC(bytes, 0) !== "RIFF" || readFourCC(bytes, 8) !== "WEBP") {
+    throw new Error("Not a WebP image, so it can't be checked for private metadata")
+  }
+
+  const kept: Uint8Array[] = []
+  let offset = 12
+
+  while (offset < bytes.length) {
+    if (offset + 8 > bytes.length) {
+      throw new Error("Could not read the image headers to remove private metadata")
+    }
+
+    const type = readFourCC(bytes, offset)
+    const size = bytes[offset + 4] | (bytes[offset + 5] << 8) | (bytes[offset + 6] << 16) | (bytes[offset + 7] << 24)
+    // Chunks are padded to an even length
+    const end = offset + 8 + size + (size % 2)
+
+    if (type === "VP8X") {
+      const chunk = bytes.slice(offset, end)
+      chunk[8] &= ~0x0c // Clear the EXIF (0x08) and XMP (0x04) flags
+      kept.push(chunk)
+    } else if (type !== "EXIF" && type !== "XMP ") {
+      kept.push(bytes.subarray(offset, end))
+    }
+    offset = end
+  }
+
+  const body = concatBytes(kept)
+  const riffSize = body.length + 4
+  const header = new Uint8Array([
+    0x52, 0x49, 0x46, 0x46, // "RIFF"
+    riffSize & 0xff, (riffSize >> 8) & 0xff, (riffSize >> 16) & 0xff, (riffSize >>> 24) & 0xff,
+    0x57, 0x45, 0x42, 0x50, // "WEBP"
+  ])
+  return concatBytes([header, body])
+}
+
+// AVIF stores EXIF and XMP as items declared in the meta box. Browsers don't write them when encoding
+// a canvas, so rather than rewriting the container, refuse any file that declares one.
+function assertNoAvifMetadata(bytes: Uint8Array) {
+  if (bytes.length < 12 || readFourCC(bytes, 4) !== "ftyp") {
+    throw new Error("Not an AVIF image, so it can't be checked for private metadata")
+  }
+
+  // Find the top-level meta box
+  let metaStart = -1
+  let metaEnd = -1
+  for (let offset = 0; offset + 8 <= bytes.length; ) {
+    const size = ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0
+    if (readFourCC(bytes, offset + 4) === "meta") {
+      metaStart = offset
+      metaEnd = Math.min(size > 0 ? offset + size : bytes.length, bytes.length)
+      break
+    }
+    // Sizes of 0 (to end of file) and 1 (64-bit) only occur on the media data, which follows meta
+    if (size < 8) break
+    offset += size
+  }
+
+  if (metaStart < 0) {
+    throw new Error("Could not read the image headers to check for private metadata")
+  }
+
+  for (let offset = metaStart + 8; offset + 16 <= metaEnd; offset++) {
+    if (readFourCC(bytes, offset) !== "infe") continue
+
+    // Item info entry (version 2 or 3): version and flags, item ID (2 or 4 bytes), protection index, item type
+    const version = bytes[offset + 4]
+    if (version < 2) continue
+    const itemType = readFourCC(bytes, offset + 8 + (version === 2 ? 2 : 4) + 2)
+
+    if (itemType === "Exif" || itemType === "mime") {
+      throw new Error("AVIF image contains EXIF or XMP metadata")
+    }
+  }
+}
+
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3])
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const joined = new Uint8Array(parts.reduce((length, part) => length + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    joined.set(part, position)
+    position += part.length
+  }
+  return joined
+}
@@ -0,0 +1,190 @@
+// Collection export: bundles a user's bowls, finishes, image metadata and original images into a ZIP archive
+// with a JSON manifest (for restoring) and a CSV (for spreadsheets).
+
+import JSZip from "jszip"
+import {
+  supabase,
+  getImageVariant,
+  BOWL_WITH_RELATIONS_SELECT,
+  type Bowl,
+  type BowlImage,
+  type BowlWithRelations,
+} from "./supabase"
+import { toCsv } from "./csv"
+
+// Bump when the manifest layout changes so restores can tell archives apart
+export const EXPORT_FORMAT_VERSION = 1
+
+export const MANIFEST_FILE = "manifest.json"
+export const CSV_FILE = "bowls.csv"
+
+export interface ExportedImage {
+  id: string
+  display_order: number
+  file_size: number | null
+  original_dimensions: { width: number; height: number } | null
+  // Missing in archives made before capture metadata was recorded
+  captured_at?: string | null
+  camera_model?: string | null
+  original_path: string
+  // Path of the original image inside the archive, or null if it couldn't be downloaded
+  file: string | null
+}
+
+export type ExportedBowl = Omit<Bowl, "user_id" | "deleted_at"> & {
+  finishes: string[]
+  images: ExportedImage[]
+}
+
+export interface ExportManifest {
+  version: number
+  exported_at: string
+  user_id: string
+  bowls: ExportedBowl[]
+}
+
+export interface ExportResult {
+  blob: Blob
+  fileName: string
+  bowlCount: number
+  imageCount: number
+  warnings: string[]
+}
+
+const CSV_COLUMNS = [
+  "id",
+  "wood_type",
+  "wood_source",
+  "date_made",
+  "comments",
+  "finishes",
+  "current_stage",
+  "dried_at",
+  "image_count",
+  "created_at",
+  "updated_at",
+]
+
+// The original is the full-quality upload; legacy single-size images only have storage_path
+const getOriginalPath = (image: BowlImage) => getImageVariant(image, "original")?.path || image.storage_path
+
+const getExtension = (path: string) => {
+  const match = path.match(/\.([a-z0-9]+)$/i)
+  return match ? match[1].toLowerCase() : "jpg"
+}
+
+function buildCsv(bowls: ExportedBowl[]): string {
+  const rows = bowls.map((bowl) => [
+    bowl.id,
+    bowl.wood_type,
+    bowl.wood_source,
+    bowl.date_made,
+    bowl.comments,
+    bowl.finishes.join("; "),
+    bowl.current_stage,
+    bowl.dried_at,
+    bowl.images.length,
+    bowl.created_at,
+    bowl.updated_at,
+  ])
+  return toCsv([CSV_COLUMNS, ...rows])
+}
+
+/**
+ * Build a ZIP archive of every bowl owned by the user.
+ * Images that fail to download are listed in the warnings and recorded with `file: null` in the manifest.
+ */
+export async function exportCollection(
+  userId: string,
+  onProgress?: (done: number, total: number) => void,
+): Promise<ExportResult> {
+  if (!supabase) {
+    throw new Error("Supabase client not initialized")
+  }
+
+  const { data, error } = await supabase
+    .from("bowls")
+    .select(BOWL_WITH_RELATIONS_SELECT)
+    .eq("user_id", userId)
+    .is("deleted_at", null)
+    .order("date_made", { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to fetch bowls: ${error.message}`)
+  }
+
+  const rows = (data || []) as BowlWithRelations[]
+  const zip = new JSZip()
+  const warnings: string[] = []
+
+  const totalImages = rows.reduce((count, row) => count + (row.bowl_images?.length || 0), 0)
+  let processedImages = 0
+  let imageCount = 0
+  onProgress?.(0, totalImages)
+
+  const bowls: ExportedBowl[] = []
+
+  for (const row of rows) {
+    const { bowl_finishes, bowl_images, creator_name, user_id, deleted_at, ...bowl } = row
+    const images: ExportedImage[] = []
+
+    const sortedImages = [...(bowl_images || [])].sort((a, b) => a.display_order - b.display_order)
+
+    for (const image of sortedImages) {
+      const originalPath = getOriginalPath(image)
+      let file: string | null = `images/${bowl.id}/${image.id}.${getExtension(originalPath)}`
+
+      const { data: imageData, error: downloadError } = await supabase.storage.from("bowl-images").download(originalPath)
+
+      if (downloadError || !imageData) {
+        console.error(`Error downloading ${originalPath}:`, downloadError)
+        warnings.push(`Could not download image ${image.id} for ${bowl.wood_type} (${bowl.date_made})`)
+        file = null
+      } else {
+        zip.file(file, imageData)
+        imageCount++
+      }
+
+      images.push({
+        id: image.id,
+        display_order: image.display_order,
+        file_size: image.file_size ?? null,
+        original_dimensions: image.original_dimensions ?? null,
+        captured_at: image.captured_at ?? null,
+        camera_model: image.camera_model ?? null,
+        original_path: originalPath,
+        file,
+      })
+
+      processedImages++
+      onProgress?.(processedImages, totalImages)
+    }
+
+    bowls.push({
+      ...bowl,
+      finishes: (bowl_finishes || []).map((finish) => finish.finish_name),
+      images,
+    })
+  }
+
+  const exportedAt = new Date().toISOString()
+  const manifest: ExportManifest = {
+    version: EXPORT_FORMAT_VERSION,
+    exported_at: exportedAt,
+    user_id: userId,
+    bowls,
+  }
+
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2))
+  zip.file(CSV_FILE, buildCsv(bowls))
+
+  const blob = await zip.generateAsync({ type: "blob" })
+
+  return {
+    blob,
+    fileName: `bowl-collection-${exportedAt.split("T")[0]}.zip`,
+    bowlCount: bowls.length,
+    imageCount,
+    warnings,
+  }
+}
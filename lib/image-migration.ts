@@ -0,0 +1,162 @@
+// Migration of legacy single-size images (rows with only image_url/storage_path) to the image presets.
+// A row is only updated once all of its new sizes are uploaded, and migrated rows no longer match the
+// legacy query, so the job can be stopped at any point and simply run again to pick up where it left off.
+
+import { supabase } from "./supabase"
+import { deleteImageSet, getUploadedPaths, uploadImageSet } from "./storage"
+import { getImageDimensions, processImage } from "./image-processing"
+import { imageSetColumns } from "./bowl-save"
+
+// Images fetched per query; each one is still migrated individually
+const BATCH_SIZE = 20
+
+interface LegacyImageRow {
+  id: string
+  bowl_id: string
+  image_url: string | null
+  storage_path: string | null
+}
+
+export interface MigrationFailure {
+  imageId: string
+  bowlId: string
+  error: string
+}
+
+export interface MigrationResult {
+  migrated: number
+  failures: MigrationFailure[]
+  // True if the run was stopped before every legacy image was attempted
+  stopped: boolean
+}
+
+// Legacy images belonging to the user's bowls (RLS only lets owners update their image rows)
+function legacyImagesQuery(userId: string, options?: { count: "exact"; head: boolean }) {
+  return supabase!
+    .from("bowl_images")
+    .select("id, bowl_id, image_url, storage_path, bowls!inner(user_id)", options)
+    .eq("bowls.user_id", userId)
+    .eq("variants", "[]")
+    .not("image_url", "is", null)
+}
+
+// Number of the user's images still waiting to be migrated, or null if it couldn't be counted
+export async function countLegacyImages(userId: string): Promise<number | null> {
+  if (!supabase) return null
+
+  const { count, error } = await legacyImagesQuery(userId, { count: "exact", head: true })
+
+  if (error) {
+    console.error("Error counting legacy images:", error)
+    return null
+  }
+  return count ?? 0
+}
+
+// Download the single stored file, preferring the storage path over the public URL
+async function downloadLegacyImage(image: LegacyImageRow): Promise<Blob> {
+  if (image.storage_path) {
+    const { data, error } = await supabase!.storage.from("bowl-images").download(image.storage_path)
+    if (data) return data
+    console.error(`Error downloading ${image.storage_path}:`, error)
+  }
+
+  if (!image.image_url) {
+    throw new Error("Image file not found")
+  }
+
+  const response = await fetch(image.image_url)
+  if (!response.ok) {
+    throw new Error(`Download failed (HTTP ${response.status})`)
+  }
+  return response.blob()
+}
+
+/**
+ * Resize one legacy image into every preset, upload them and point its row at the new files.
+ * The old single file is removed afterwards since nothing references it any more.
+ */
+async function migrateImage(image: LegacyImageRow): Promise<void> {
+  const blob = await downloadLegacyImage(image)
+  const file = new File([blob], `${image.id}.jpg`, { type: blob.type || "image/jpeg" })
+  const [processed, dimensions] = await Promise.all([processImage(file), getImageDimensions(file)])
+
+  const uploadResult = await uploadImageSet(processed, image.bowl_id)
+  if (!uploadResult) {
+    throw new Error("Image upload failed")
+  }
+
+  const { error } = await supabase!
+    .from("bowl_images")
+    .update(imageSetColumns(uploadResult, blob.size, dimensions))
+    .eq("id", image.id)
+
+  if (error) {
+    // Don't leave the new files behind when the row still points at the old one
+    await deleteImageSet(getUploadedPaths(uploadResult))
+    throw new Error(`Failed to update image record: ${error.message}`)
+  }
+
+  if (image.storage_path) {
+    await deleteImageSet([image.storage_path])
+  }
+}
+
+/**
+ * Migrate all of the user's legacy images.
+ * Failures are collected and skipped for the rest of the run; aborting `signal` stops after the current image.
+ */
+export async function migrateLegacyImages(
+  userId: string,
+  onProgress: (done: number, total: number, failed: number) => void,
+  signal?: AbortSignal,
+): Promise<MigrationResult> {
+  if (!supabase) {
+    throw new Error("Supabase client not initialized")
+  }
+
+  const total = (await countLegacyImages(userId)) ?? 0
+  const failures: MigrationFailure[] = []
+  let migrated = 0
+  // Walk the table by ID so images that failed aren't fetched again in the same run
+  let cursor = ""
+
+  onProgress(0, total, 0)
+
+  while (!signal?.aborted) {
+    let query = legacyImagesQuery(userId).order("id", { ascending: true }).limit(BATCH_SIZE)
+    if (cursor) {
+      query = query.gt("id", cursor)
+    }
+
+    const { data, error } = await query
+
+    if (error) {
+      throw new Error(`Failed to load legacy images: ${error.message}`)
+    }
+    if (!data || data.length === 0) {
+      return { migrated, failures, stopped: false }
+    }
+
+    for (const image of data as LegacyImageRow[]) {
+      if (signal?.aborted) break
+
+      try {
+        await migrateImage(image)
+        migrated++
+      } catch (error) {
+        console.error(`Error migrating image ${image.id}:`, error)
+        failures.push({
+          imageId: image.id,
+          bowlId: image.bowl_id,
+          error: error instanceof Error ? error.message : "Unknown error",
+        })
+      }
+
+      cursor = image.id
+      onProgress(migrated + failures.length, Math.max(total, migrated + failures.length), failures.length)
+    }
+  }
+
+  return { migrated, failures, stopped: true }
+}
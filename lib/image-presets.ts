@@ -0,0 +1,118 @@
+// Image size presets: the named variants every uploaded photo is resized and encoded into.
+// The defaults can be replaced per deployment with NEXT_PUBLIC_IMAGE_PRESETS (see app/env.example).
+
+export type ImageFormat = "jpeg" | "webp" | "avif"
+
+export const IMAGE_FORMATS: readonly ImageFormat[] = ["jpeg", "webp", "avif"]
+
+export interface ImagePreset {
+  name: string // Also the storage folder, so lowercase letters, digits and dashes only
+  maxWidth: number
+  maxHeight: number
+  quality: number // 0-1, passed to the canvas encoder
+  format: ImageFormat // Always stored; the fallback every browser is served
+  // Also encoded where the browser can, and kept only if smaller than `format`
+  alternateFormats: ImageFormat[]
+}
+
+// Sizes the app itself displays; a deployment can resize them and add more, but not remove them
+export const STANDARD_IMAGE_SIZES = ["thumbnail", "medium", "full", "original"] as const
+export type StandardImageSize = (typeof STANDARD_IMAGE_SIZES)[number]
+
+export const DEFAULT_IMAGE_PRESETS: ImagePreset[] = [
+  // Grid view
+  { name: "thumbnail", maxWidth: 150, maxHeight: 150, quality: 0.8, format: "jpeg", alternateFormats: ["avif", "webp"] },
+  // Detail view
+  { name: "medium", maxWidth: 400, maxHeight: 400, quality: 0.85, format: "jpeg", alternateFormats: ["avif", "webp"] },
+  // Full-screen viewer
+  { name: "full", maxWidth: 800, maxHeight: 800, quality: 0.9, format: "jpeg", alternateFormats: ["avif", "webp"] },
+  // Compressed but kept larger, used for exports
+  { name: "original", maxWidth: 1200, maxHeight: 1200, quality: 0.95, format: "jpeg", alternateFormats: ["avif", "webp"] },
+]
+
+const PRESET_NAME_PATTERN = /^[a-z0-9-]+$/
+
+// Check one configured preset, filling in the optional fields. Throws with the reason if it is unusable.
+function parsePreset(value: unknown): ImagePreset {
+  if (typeof value !== "object" || value === null) {
+    throw new Error("each preset must be an object")
+  }
+
+  const { name, maxWidth, maxHeight, quality = 0.85, format = "jpeg", alternateFormats = [] } = value as Record<
+    string,
+    unknown
+  >
+
+  if (typeof name !== "string" || !PRESET_NAME_PATTERN.test(name)) {
+    throw new Error(`invalid preset name ${JSON.stringify(name)}`)
+  }
+  if (!Number.isInteger(maxWidth) || (maxWidth as number) <= 0) {
+    throw new Error(`maxWidth of "${name}" must be a positive whole number`)
+  }
+  if (!Number.isInteger(maxHeight) || (maxHeight as number) <= 0) {
+    throw new Error(`maxHeight of "${name}" must be a positive whole number`)
+  }
+  if (typeof quality !== "number" || quality <= 0 || quality > 1) {
+    throw new Error(`quality of "${name}" must be between 0 and 1`)
+  }
+  if (!IMAGE_FORMATS.includes(format as ImageFormat)) {
+    throw new Error(`format of "${name}" must be one of ${IMAGE_FORMATS.join(", ")}`)
+  }
+  if (!Array.isArray(alternateFormats) || alternateFormats.some((alt) => !IMAGE_FORMATS.includes(alt))) {
+    throw new Error(`alternateFormats of "${name}" must only contain ${IMAGE_FORMATS.join(", ")}`)
+  }
+
+  return {
+    name,
+    maxWidth: maxWidth as number,
+    maxHeight: maxHeight as number,
+    quality,
+    format: format as ImageFormat,
+    alternateFormats: [...new Set(alternateFormats as ImageFormat[])].filter((alt) => alt !== format),
+  }
+}
+
+/**
+ * Parse a JSON preset list. Standard sizes it leaves out keep their defaults, so a deployment only
+ * has to list what it changes or adds. Throws if the JSON or any preset is invalid.
+ */
+export function parseImagePresets(json: string): ImagePreset[] {
+  const value: unknown = JSON.parse(json)
+  if (!Array.isArray(value)) {
+    throw new Error("expected a JSON array of presets")
+  }
+
+  const presets = value.map(parsePreset)
+  const names = presets.map((preset) => preset.name)
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index)
+  if (duplicate) {
+    throw new Error(`preset "${duplicate}" is defined twice`)
+  }
+
+  const missing = DEFAULT_IMAGE_PRESETS.filter((preset) => !names.includes(preset.name))
+  return [...missing, ...presets]
+}
+
+// Read the presets from the environment; an invalid setting is reported and the defaults used instead
+function loadImagePresets(): ImagePreset[] {
+  const configured = process.env.NEXT_PUBLIC_IMAGE_PRESETS
+  if (!configured) return DEFAULT_IMAGE_PRESETS
+
+  try {
+    return parseImagePresets(configured)
+  } catch (error) {
+    console.error("Ignoring invalid NEXT_PUBLIC_IMAGE_PRESETS:", error)
+    return DEFAULT_IMAGE_PRESETS
+  }
+}
+
+export const IMAGE_PRESETS: ImagePreset[] = loadImagePresets()
+
+export function getImagePreset(name: string): ImagePreset | undefined {
+  return IMAGE_PRESETS.find((preset) => preset.name === name)
+}
+
+// File extension used when storing an encoding
+export function getFormatExtension(format: ImageFormat): string {
+  return format === "jpeg" ? "jpg" : format
+}
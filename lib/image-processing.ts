@@ -1,10 +1,28 @@
 // Image processing utilities for compression and resizing
 
+import { readExif } from "./exif"
+import { IMAGE_PRESETS, STANDARD_IMAGE_SIZES, type ImageFormat, type ImagePreset } from "./image-presets"
+
+// One preset encoded in one format
+export interface EncodedVariant {
+  name: string // Preset name
+  format: ImageFormat
+  data: string // Data URL
+  bytes: number
+}
+
 export interface ProcessedImage {
-  thumbnail: string // 150x150 for grid view
-  medium: string // 400x400 for detail view
-  full: string // 800x800 max for full view
-  original: string // Original size (compressed)
+  // For each preset its fallback encoding first, then any smaller alternate formats
+  variants: EncodedVariant[]
+}
+
+// Layout of images processed before sizes were configurable; they may still be queued in the offline outbox
+interface LegacyProcessedImage {
+  thumbnail: string
+  medium: string
+  full: string
+  original: string
+  alternates?: { size: string; format: ImageFormat; data: string; bytes: number }[]
 }
 
 export interface ImageDimensions {
@@ -12,21 +30,45 @@ export interface ImageDimensions {
   height: number
 }
 
-// Compress and resize image to multiple sizes
-export async function processImage(file: File): Promise<ProcessedImage> {
+// The encodings of a processed image, converting the legacy four-size layout if needed
+export function getEncodedVariants(processed: ProcessedImage | LegacyProcessedImage): EncodedVariant[] {
+  if ("variants" in processed) return processed.variants
+
+  return STANDARD_IMAGE_SIZES.flatMap((size) => [
+    { name: size, format: "jpeg" as const, data: processed[size], bytes: dataUrlBytes(processed[size]) },
+    ...(processed.alternates ?? [])
+      .filter((alternate) => alternate.size === size)
+      .map(({ size: name, ...alternate }) => ({ name, ...alternate })),
+  ])
+}
+
+// Data URL of a preset's fallback encoding, e.g. for previews before upload
+export function getVariantData(processed: ProcessedImage, name: string): string | undefined {
+  return getEncodedVariants(processed).find((variant) => variant.name === name)?.data
+}
+
+// Compress and resize image to every configured preset.
+// The EXIF orientation is applied here because re-encoding through canvas drops the tag.
+export async function processImage(file: File, presets: ImagePreset[] = IMAGE_PRESETS): Promise<ProcessedImage> {
+  const [{ orientation: exifOrientation }, browserOriented] = await Promise.all([
+    readExif(file),
+    browserAppliesOrientation(),
+  ])
+  // Browsers that already decode images upright must not be rotated a second time
+  const orientation = browserOriented ? 1 : exifOrientation
+
   return new Promise((resolve, reject) => {
     const img = new Image()
     img.crossOrigin = "anonymous"
 
     img.onload = () => {
       try {
-        const processed = {
-          thumbnail: resizeImage(img, 150, 150, 0.8),
-          medium: resizeImage(img, 400, 400, 0.85),
-          full: resizeImage(img, 800, 800, 0.9),
-          original: resizeImage(img, 1200, 1200, 0.95), // Compress but keep larger
-        }
-        resolve(processed)
+        // Resize once per preset, then encode in its format plus any smaller alternate formats
+        const variants = presets.flatMap((preset) => {
+          const canvas = resizeImage(img, preset.maxWidth, preset.maxHeight, orientation)
+          return encodePreset(canvas, preset)
+        })
+        resolve({ variants })
       } catch (error) {
         reject(error)
       }
@@ -37,13 +79,88 @@ export async function processImage(file: File): Promise<ProcessedImage> {
   })
 }
 
-// Resize image to fit within max dimensions while maintaining aspect ratio
-function resizeImage(img: HTMLImageElement, maxWidth: number, maxHeight: number, quality: number): string {
+// JPEG segment holding only an EXIF Orientation tag of 6 (rotate 90° clockwise)
+const ORIENTATION_TEST_EXIF = new Uint8Array([
+  0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00, 0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, 0x00,
+  0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00,
+])
+
+let orientationSupport: Promise<boolean> | null = null
+
+// Whether the browser rotates images by their EXIF orientation when decoding them (all current ones do).
+// Checked once by loading a 2x1 JPEG tagged as rotated and seeing if it comes out 1 pixel wide.
+function browserAppliesOrientation(): Promise<boolean> {
+  if (!orientationSupport) {
+    orientationSupport = new Promise((resolve) => {
+      const canvas = document.createElement("canvas")
+      canvas.width = 2
+      canvas.height = 1
+
+      canvas.toBlob(async (blob) => {
+        if (!blob) return resolve(false)
+
+        const bytes = new Uint8Array(await blob.arrayBuffer())
+        // Insert the EXIF segment right after the start-of-image marker
+        const tagged = new Blob([bytes.slice(0, 2), ORIENTATION_TEST_EXIF, bytes.slice(2)], { type: "image/jpeg" })
+
+        const img = new Image()
+        img.onload = () => {
+          resolve(img.width === 1)
+          URL.revokeObjectURL(img.src)
+        }
+        img.onerror = () => resolve(false)
+        img.src = URL.createObjectURL(tagged)
+      }, "image/jpeg")
+    })
+  }
+  return orientationSupport
+}
+
+// Encode a canvas in the given format, or return null if the browser can't.
+// Canvas falls back to PNG for types it can't encode, which is how support is detected.
+function encodeCanvas(canvas: HTMLCanvasElement, format: ImageFormat, quality: number): string | null {
+  const data = canvas.toDataURL(`image/${format}`, quality)
+  return data.startsWith(`data:image/${format}`) ? data : null
+}
+
+// Encode a resized canvas for one preset: its format (JPEG if the browser can't encode that),
+// followed by each alternate format that came out smaller
+function encodePreset(canvas: HTMLCanvasElement, preset: ImagePreset): EncodedVariant[] {
+  const preferred = encodeCanvas(canvas, preset.format, preset.quality)
+  const format = preferred ? preset.format : "jpeg"
+  const data = preferred ?? canvas.toDataURL("image/jpeg", preset.quality)
+  const fallback: EncodedVariant = { name: preset.name, format, data, bytes: dataUrlBytes(data) }
+
+  const alternates = preset.alternateFormats.flatMap((alternateFormat) => {
+    if (alternateFormat === format) return []
+    const alternateData = encodeCanvas(canvas, alternateFormat, preset.quality)
+    const bytes = alternateData ? dataUrlBytes(alternateData) : Infinity
+    return alternateData && bytes < fallback.bytes
+      ? [{ name: preset.name, format: alternateFormat, data: alternateData, bytes }]
+      : []
+  })
+
+  return [fallback, ...alternates]
+}
+
+// Decoded size of a base64 data URL
+function dataUrlBytes(dataUrl: string): number {
+  const base64 = dataUrl.slice(dataUrl.indexOf(",") + 1)
+  return Math.floor((base64.length * 3) / 4) - (base64.endsWith("==") ? 2 : base64.endsWith("=") ? 1 : 0)
+}
+
+// Resize image to fit within max dimensions while maintaining aspect ratio, turning it upright if needed
+function resizeImage(img: HTMLImageElement, maxWidth: number, maxHeight: number, orientation = 1): HTMLCanvasElement {
   const canvas = document.createElement("canvas")
   const ctx = canvas.getContext("2d")!
 
+  // Orientations 5-8 are rotated a quarter turn, so width and height swap
+  const swapsAxes = orientation >= 5
+  const uprightWidth = swapsAxes ? img.height : img.width
+  const uprightHeight = swapsAxes ? img.width : img.height
+
   // Calculate new dimensions maintaining aspect ratio
-  const { width, height } = calculateDimensions(img.width, img.height, maxWidth, maxHeight)
+  const { width, height } = calculateDimensions(uprightWidth, uprightHeight, maxWidth, maxHeight)
 
   canvas.width = width
   canvas.height = height
@@ -52,11 +169,38 @@ function resizeImage(img: HTMLImageElement, maxWidth: number, maxHeight: number,
   ctx.imageSmoothingEnabled = true
   ctx.imageSmoothingQuality = "high"
 
+  // Size of the stored (not yet rotated) image on the canvas
+  const drawWidth = swapsAxes ? height : width
+  const drawHeight = swapsAxes ? width : height
+
+  switch (orientation) {
+    case 2:
+      ctx.transform(-1, 0, 0, 1, drawWidth, 0)
+      break
+    case 3:
+      ctx.transform(-1, 0, 0, -1, drawWidth, drawHeight)
+      break
+    case 4:
+      ctx.transform(1, 0, 0, -1, 0, drawHeight)
+      break
+    case 5:
+      ctx.transform(0, 1, 1, 0, 0, 0)
+      break
+    case 6:
+      ctx.transform(0, 1, -1, 0, drawHeight, 0)
+      break
+    case 7:
+      ctx.transform(0, -1, -1, 0, drawHeight, drawWidth)
+      break
+    case 8:
+      ctx.transform(0, -1, 1, 0, 0, drawWidth)
+      break
+  }
+
   // Draw the resized image
-  ctx.drawImage(img, 0, 0, width, height)
+  ctx.drawImage(img, 0, 0, drawWidth, drawHeight)
 
-  // Convert to base64 with compression
-  return canvas.toDataURL("image/jpeg", quality)
+  return canvas
 }
 
 // Calculate new dimensions maintaining aspect ratio
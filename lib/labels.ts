@@ -0,0 +1,109 @@
+// Label sheet layouts for printing bowl tags. All measurements are in millimetres.
+
+export interface LabelSheet {
+  name: string
+  pageWidth: number
+  pageHeight: number
+  columns: number
+  rows: number
+  labelWidth: number
+  labelHeight: number
+  marginTop: number
+  marginLeft: number
+  columnGap: number
+  rowGap: number
+}
+
+const LETTER = { pageWidth: 215.9, pageHeight: 279.4 }
+const A4 = { pageWidth: 210, pageHeight: 297 }
+
+// Common Avery sheets; any of these can be adjusted on the print page to suit a printer
+export const LABEL_SHEETS = {
+  "avery-5160": {
+    name: "Avery 5160 / 8160 (Letter, 30 per sheet)",
+    ...LETTER,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.675,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.7625,
+    columnGap: 3.175,
+    rowGap: 0,
+  },
+  "avery-5163": {
+    name: "Avery 5163 / 8163 (Letter, 10 per sheet)",
+    ...LETTER,
+    columns: 2,
+    rows: 5,
+    labelWidth: 101.6,
+    labelHeight: 50.8,
+    marginTop: 12.7,
+    marginLeft: 3.96875,
+    columnGap: 4.7625,
+    rowGap: 0,
+  },
+  "avery-l7160": {
+    name: "Avery L7160 (A4, 21 per sheet)",
+    ...A4,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 7.2,
+    columnGap: 2.5,
+    rowGap: 0,
+  },
+  "avery-l7163": {
+    name: "Avery L7163 (A4, 14 per sheet)",
+    ...A4,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.15,
+    marginLeft: 4.65,
+    columnGap: 2.5,
+    rowGap: 0,
+  },
+} satisfies Record<string, LabelSheet>
+
+export type LabelSheetId = keyof typeof LABEL_SHEETS
+
+export const DEFAULT_LABEL_SHEET: LabelSheetId = "avery-5160"
+
+// Short, human-readable bowl reference printed on tags
+export const shortBowlId = (id: string) => id.replace(/-/g, "").slice(0, 8).toUpperCase()
+
+// Split the labels into pages, skipping `skip` positions on the first sheet (for partly used sheets)
+export function paginateLabels<T>(items: T[], sheet: LabelSheet, skip = 0): (T | null)[][] {
+  const perPage = sheet.columns * sheet.rows
+  // Empty or invalid grid settings (e.g. a cleared input) would never advance the loop below
+  if (!Number.isInteger(perPage) || perPage < 1) return []
+
+  const slots: (T | null)[] = [...new Array<null>(Math.max(0, Math.min(skip, perPage - 1))).fill(null), ...items]
+  const pages: (T | null)[][] = []
+
+  for (let i = 0; i < slots.length; i += perPage) {
+    pages.push(slots.slice(i, i + perPage))
+  }
+  return pages
+}
+
+// Check that the grid fits on the page so nothing gets cut off when printing
+export function validateLabelSheet(sheet: LabelSheet): string | null {
+  const width = sheet.marginLeft + sheet.columns * sheet.labelWidth + (sheet.columns - 1) * sheet.columnGap
+  const height = sheet.marginTop + sheet.rows * sheet.labelHeight + (sheet.rows - 1) * sheet.rowGap
+
+  if (sheet.columns < 1 || sheet.rows < 1 || sheet.labelWidth <= 0 || sheet.labelHeight <= 0) {
+    return "Columns, rows and label size must all be positive"
+  }
+  if (width > sheet.pageWidth + 0.5) {
+    return `Labels are ${(width - sheet.pageWidth).toFixed(1)}mm wider than the page`
+  }
+  if (height > sheet.pageHeight + 0.5) {
+    return `Labels are ${(height - sheet.pageHeight).toFixed(1)}mm taller than the page`
+  }
+  return null
+}
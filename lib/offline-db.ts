@@ -0,0 +1,96 @@
+// Minimal IndexedDB helpers shared by the offline features
+
+const DB_NAME = "bowl-tracker"
+const DB_VERSION = 2
+
+export const OUTBOX_STORE = "outbox"
+export const REPLICA_BOWLS_STORE = "replicaBowls"
+export const REPLICA_IMAGES_STORE = "replicaImages"
+export const META_STORE = "meta"
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function isIndexedDBAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window
+}
+
+// Open (and create/upgrade if needed) the app database. The connection is reused across calls.
+export function openOfflineDb(): Promise<IDBDatabase> {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available"))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: "id" })
+        }
+        // Version 2: local replica of the collection for offline reading
+        if (!db.objectStoreNames.contains(REPLICA_BOWLS_STORE)) {
+          db.createObjectStore(REPLICA_BOWLS_STORE, { keyPath: "id" })
+        }
+        if (!db.objectStoreNames.contains(REPLICA_IMAGES_STORE)) {
+          db.createObjectStore(REPLICA_IMAGES_STORE, { keyPath: "url" })
+        }
+        if (!db.objectStoreNames.contains(META_STORE)) {
+          db.createObjectStore(META_STORE, { keyPath: "key" })
+        }
+      }
+
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error || new Error("Failed to open IndexedDB"))
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+// Run a callback against a single object store and wait for the transaction to complete
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> {
+  const db = await openOfflineDb()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = callback(transaction.objectStore(storeName))
+    let result: T | undefined
+
+    if (request) {
+      request.onsuccess = () => {
+        result = request.result
+      }
+    }
+
+    transaction.oncomplete = () => resolve(result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted"))
+  })
+}
+
+// Run several operations in one transaction spanning multiple stores
+export async function runTransaction(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  callback: (transaction: IDBTransaction) => void,
+): Promise<void> {
+  const db = await openOfflineDb()
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode)
+    callback(transaction)
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error || new Error("Transaction aborted"))
+  })
+}
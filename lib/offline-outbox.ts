@@ -0,0 +1,163 @@
+// Offline outbox for bowls created without a connection.
+// Entries are stored in IndexedDB and replayed against Supabase once the device is back online.
+
+import { OUTBOX_STORE, isIndexedDBAvailable, withStore } from "./offline-db"
+import { saveBowl, type NewBowlImage, type NewBowlInput } from "./bowl-save"
+import { supabase } from "./supabase"
+import { networkManager } from "./pwa-utils"
+
+export interface OutboxEntry {
+  id: string
+  userId: string
+  createdAt: string
+  bowl: NewBowlInput
+  images: NewBowlImage[]
+  // Assigned when queued, so a replay whose response was lost finds the bowl instead of creating it twice
+  bowlId: string
+  lastError: string | null
+}
+
+export interface OutboxStatus {
+  pending: number
+  syncing: boolean
+  lastError: string | null
+}
+
+// Queue a new bowl for creation once the device is online
+export async function addToOutbox(userId: string, bowl: NewBowlInput, images: NewBowlImage[]): Promise<OutboxEntry> {
+  const entry: OutboxEntry = {
+    id: `${Date.now()}-${Math.random().toString(36).substring(7)}`,
+    userId,
+    createdAt: new Date().toISOString(),
+    bowl,
+    images,
+    bowlId: crypto.randomUUID(),
+    lastError: null,
+  }
+
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.put(entry))
+  outboxSync.refresh()
+  return entry
+}
+
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  if (!isIndexedDBAvailable()) return []
+
+  const entries = await withStore<OutboxEntry[]>(OUTBOX_STORE, "readonly", (store) => store.getAll())
+  return (entries || []).sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+async function saveOutboxEntry(entry: OutboxEntry) {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.put(entry))
+}
+
+async function removeOutboxEntry(id: string) {
+  await withStore(OUTBOX_STORE, "readwrite", (store) => store.delete(id))
+}
+
+// Whether an earlier replay of the entry already saved its bowl
+async function isBowlSaved(bowlId: string): Promise<boolean> {
+  if (!supabase) {
+    throw new Error("Supabase client not initialized")
+  }
+
+  const { data, error } = await supabase.from("bowls").select("id").eq("id", bowlId).maybeSingle()
+  if (error) {
+    throw new Error(`Failed to check for the synced bowl: ${error.message}`)
+  }
+  return data !== null
+}
+
+// Replay a single entry: the bowl, its stage, finishes and images are saved in one transaction
+async function replayEntry(entry: OutboxEntry) {
+  if (!(await isBowlSaved(entry.bowlId))) {
+    await saveBowl(entry.bowlId, entry.bowl, entry.images, {
+      create: true,
+      onProgress: (uploaded, total) => {
+        if (uploaded < total) console.log(`Syncing image ${uploaded + 1} of ${total} for bowl ${entry.bowlId}`)
+      },
+    })
+  }
+
+  await removeOutboxEntry(entry.id)
+}
+
+// Outbox sync manager - replays queued bowls when connectivity returns
+export class OutboxSync {
+  private status: OutboxStatus = { pending: 0, syncing: false, lastError: null }
+  private listeners: ((status: OutboxStatus) => void)[] = []
+  private started = false
+
+  // Begin watching the network; safe to call more than once
+  start() {
+    if (this.started || typeof window === "undefined") return
+    this.started = true
+
+    networkManager.onStatusChange((online) => {
+      if (online) {
+        this.sync()
+      }
+    })
+
+    this.refresh().then(() => {
+      if (networkManager.getStatus()) {
+        this.sync()
+      }
+    })
+  }
+
+  getStatus(): OutboxStatus {
+    return this.status
+  }
+
+  onStatusChange(callback: (status: OutboxStatus) => void) {
+    this.listeners.push(callback)
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== callback)
+    }
+  }
+
+  // Re-read the pending count from IndexedDB
+  async refresh() {
+    try {
+      const entries = await getOutboxEntries()
+      this.setStatus({ pending: entries.length, lastError: entries.find((e) => e.lastError)?.lastError ?? null })
+    } catch (error) {
+      console.error("Failed to read outbox:", error)
+    }
+  }
+
+  // Replay every queued entry in order. Stops at the first failure so ordering is preserved.
+  async sync(): Promise<void> {
+    if (this.status.syncing || !networkManager.getStatus()) return
+
+    this.setStatus({ syncing: true })
+
+    try {
+      const entries = await getOutboxEntries()
+
+      for (const entry of entries) {
+        try {
+          await replayEntry(entry)
+          this.setStatus({ pending: this.status.pending - 1, lastError: null })
+        } catch (error) {
+          console.error("Outbox sync failed:", error)
+          entry.lastError = error instanceof Error ? error.message : "Unknown error"
+          await saveOutboxEntry(entry)
+          this.setStatus({ lastError: entry.lastError })
+          break
+        }
+      }
+    } finally {
+      this.setStatus({ syncing: false })
+      await this.refresh()
+    }
+  }
+
+  private setStatus(changes: Partial<OutboxStatus>) {
+    this.status = { ...this.status, ...changes }
+    this.listeners.forEach((listener) => listener(this.status))
+  }
+}
+
+export const outboxSync = new OutboxSync()
@@ -0,0 +1,293 @@
+// Local replica of the bowl collection for offline reading.
+// Bowls, finishes and thumbnail/medium images are copied into IndexedDB and refreshed in the background.
+
+import {
+  META_STORE,
+  REPLICA_BOWLS_STORE,
+  REPLICA_IMAGES_STORE,
+  isIndexedDBAvailable,
+  runTransaction,
+  withStore,
+} from "./offline-db"
+import { fetchBowlsWithRelations, type FrontendBowl } from "./supabase"
+import { BOWL_SORT_OPTIONS, DEFAULT_PAGE_SIZE, type BowlPage, type BowlQuery } from "./bowl-query"
+import { networkManager } from "./pwa-utils"
+
+// Cache the service worker falls back to for bowl detail pages (kept across service worker versions)
+export const PAGES_CACHE = "bowl-tracker-pages"
+
+// Don't refresh more often than this unless asked to
+const REFRESH_INTERVAL_MS = 60 * 60 * 1000
+
+const LAST_SYNCED_KEY = "replicaLastSyncedAt"
+
+interface ReplicaImage {
+  url: string
+  blob: Blob
+}
+
+export interface ReplicaStatus {
+  lastSyncedAt: string | null
+  syncing: boolean
+}
+
+// Object URLs handed out for stored blobs, reused so each image is only materialised once
+const objectUrls = new Map<string, string>()
+
+const isRemoteImage = (url: string) => /^https?:\/\//.test(url)
+
+export async function getLastSyncedAt(): Promise<string | null> {
+  if (!isIndexedDBAvailable()) return null
+
+  const meta = await withStore<{ key: string; value: string }>(META_STORE, "readonly", (store) =>
+    store.get(LAST_SYNCED_KEY),
+  )
+  return meta?.value ?? null
+}
+
+// Swap remote image URLs for locally stored copies. Full and original sizes fall back to the medium copy.
+// Only the thumbnail and medium files are stored locally, so the variants (remote files) are dropped.
+async function withLocalImages(bowl: FrontendBowl): Promise<FrontendBowl> {
+  const localUrl = async (url: string) => {
+    if (objectUrls.has(url)) return objectUrls.get(url)!
+
+    const stored = await withStore<ReplicaImage>(REPLICA_IMAGES_STORE, "readonly", (store) => store.get(url))
+    if (!stored) return null
+
+    const objectUrl = URL.createObjectURL(stored.blob)
+    objectUrls.set(url, objectUrl)
+    return objectUrl
+  }
+
+  const images = await Promise.all(
+    bowl.images.map(async (image) => {
+      const thumbnail = (await localUrl(image.thumbnail)) || image.thumbnail
+      const medium = (await localUrl(image.medium)) || image.medium
+      return { ...image, thumbnail, medium, full: medium, original: medium, variants: [] }
+    }),
+  )
+
+  return { ...bowl, images }
+}
+
+// Read a single bowl from the replica (images in oldest-first order)
+export async function getReplicaBowl(id: string): Promise<FrontendBowl | null> {
+  if (!isIndexedDBAvailable()) return null
+
+  const bowl = await withStore<FrontendBowl>(REPLICA_BOWLS_STORE, "readonly", (store) => store.get(id))
+  return bowl ? withLocalImages(bowl) : null
+}
+
+/**
+ * Apply the grid's search, filters, sort and paging to the replica.
+ * Returns null if the collection has never been synced to this device.
+ */
+export async function queryReplica(
+  query: BowlQuery,
+  pageSize: number = DEFAULT_PAGE_SIZE,
+): Promise<{ page: BowlPage; lastSyncedAt: string } | null> {
+  const lastSyncedAt = await getLastSyncedAt()
+  if (!lastSyncedAt) return null
+
+  const allBowls = (await withStore<FrontendBowl[]>(REPLICA_BOWLS_STORE, "readonly", (store) => store.getAll())) || []
+
+  const contains = (value: string | null | undefined, search: string) =>
+    (value || "").toLowerCase().includes(search.toLowerCase())
+  const terms = query.q.split(/\s+/).filter(Boolean)
+
+  const matches = allBowls.filter(
+    (bowl) =>
+      terms.every(
+        (term) =>
+          contains(bowl.woodType, term) ||
+          contains(bowl.woodSource, term) ||
+          contains(bowl.comments, term) ||
+          contains(bowl.createdBy, term) ||
+          bowl.finishes.some((finish) => contains(finish, term)),
+      ) &&
+      (!query.woodType || contains(bowl.woodType, query.woodType)) &&
+      (!query.finish || bowl.finishes.some((finish) => contains(finish, query.finish))) &&
+      (!query.creator || bowl.userId === query.creator) &&
+      (!query.from || bowl.dateMade >= query.from) &&
+      (!query.to || bowl.dateMade <= query.to),
+  )
+
+  const sortValue = (bowl: FrontendBowl) => {
+    switch (BOWL_SORT_OPTIONS[query.sort].column) {
+      case "created_at":
+        return bowl.createdAt
+      case "wood_type":
+        return bowl.woodType.toLowerCase()
+      case "creator_name":
+        return bowl.createdBy.toLowerCase()
+      default:
+        return bowl.dateMade
+    }
+  }
+  matches.sort((a, b) => sortValue(a).localeCompare(sortValue(b)) * (query.ascending ? 1 : -1))
+
+  const start = (query.page - 1) * pageSize
+  const pageBowls = await Promise.all(
+    matches.slice(start, start + pageSize).map(async (bowl) => {
+      // The grid shows the newest image first
+      const local = await withLocalImages(bowl)
+      return { ...local, images: [...local.images].reverse() }
+    }),
+  )
+
+  return {
+    page: {
+      bowls: pageBowls,
+      total: matches.length,
+      pageCount: Math.max(1, Math.ceil(matches.length / pageSize)),
+      snippets: {},
+    },
+    lastSyncedAt,
+  }
+}
+
+// Download any thumbnail/medium images not yet stored locally
+async function downloadMissingImages(urls: string[]) {
+  const existing = new Set(
+    ((await withStore<IDBValidKey[]>(REPLICA_IMAGES_STORE, "readonly", (store) => store.getAllKeys())) || []).map(
+      String,
+    ),
+  )
+
+  for (const url of urls) {
+    if (existing.has(url)) continue
+
+    try {
+      const response = await fetch(url)
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`)
+      }
+      const blob = await response.blob()
+      await withStore(REPLICA_IMAGES_STORE, "readwrite", (store) => store.put({ url, blob }))
+    } catch (error) {
+      // Keep going - a missing image just falls back to its remote URL
+      console.warn(`Failed to download image for offline use: ${url}`, error)
+    }
+  }
+
+  return existing
+}
+
+// Store the HTML for each bowl page so the service worker can serve it offline
+async function cacheBowlPages(bowlIds: string[]) {
+  if (typeof caches === "undefined") return
+
+  const cache = await caches.open(PAGES_CACHE)
+  const paths = ["/", ...bowlIds.map((id) => `/bowl/${id}`)]
+  const wanted = new Set(paths.map((path) => new URL(path, window.location.origin).href))
+
+  // Remove pages for bowls that no longer exist
+  for (const request of await cache.keys()) {
+    if (!wanted.has(request.url)) {
+      await cache.delete(request)
+    }
+  }
+
+  for (const path of paths) {
+    try {
+      await cache.add(path)
+    } catch (error) {
+      console.warn(`Failed to cache page for offline use: ${path}`, error)
+    }
+  }
+}
+
+// Pull the whole collection into the replica
+export async function refreshReplica(): Promise<string> {
+  const bowls = await fetchBowlsWithRelations("oldest-first")
+
+  const imageUrls = [
+    ...new Set(bowls.flatMap((bowl) => bowl.images.flatMap((image) => [image.thumbnail, image.medium]))),
+  ].filter(isRemoteImage)
+  const storedUrls = await downloadMissingImages(imageUrls)
+
+  const syncedAt = new Date().toISOString()
+  const wantedUrls = new Set(imageUrls)
+
+  // Replace the bowl list and drop images that are no longer referenced in a single transaction
+  await runTransaction([REPLICA_BOWLS_STORE, REPLICA_IMAGES_STORE, META_STORE], "readwrite", (transaction) => {
+    const bowlStore = transaction.objectStore(REPLICA_BOWLS_STORE)
+    bowlStore.clear()
+    bowls.forEach((bowl) => bowlStore.put(bowl))
+
+    const imageStore = transaction.objectStore(REPLICA_IMAGES_STORE)
+    storedUrls.forEach((url) => {
+      if (!wantedUrls.has(url)) imageStore.delete(url)
+    })
+
+    transaction.objectStore(META_STORE).put({ key: LAST_SYNCED_KEY, value: syncedAt })
+  })
+
+  await cacheBowlPages(bowls.map((bowl) => bowl.id))
+
+  console.log(`Offline replica refreshed: ${bowls.length} bowls, ${imageUrls.length} images`)
+  return syncedAt
+}
+
+// Replica sync manager - keeps the local copy fresh while the app is open
+export class ReplicaSync {
+  private status: ReplicaStatus = { lastSyncedAt: null, syncing: false }
+  private listeners: ((status: ReplicaStatus) => void)[] = []
+  private started = false
+
+  // Begin watching the network; safe to call more than once
+  start() {
+    if (this.started || typeof window === "undefined" || !isIndexedDBAvailable()) return
+    this.started = true
+
+    networkManager.onStatusChange((online) => {
+      if (online) {
+        this.sync()
+      }
+    })
+
+    getLastSyncedAt()
+      .then((lastSyncedAt) => {
+        this.setStatus({ lastSyncedAt })
+        this.sync()
+      })
+      .catch((error) => console.error("Failed to read replica status:", error))
+  }
+
+  getStatus(): ReplicaStatus {
+    return this.status
+  }
+
+  onStatusChange(callback: (status: ReplicaStatus) => void) {
+    this.listeners.push(callback)
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== callback)
+    }
+  }
+
+  // Refresh the replica if it is stale (or always, when forced)
+  async sync(force = false): Promise<void> {
+    if (this.status.syncing || !networkManager.getStatus()) return
+
+    const age = this.status.lastSyncedAt ? Date.now() - new Date(this.status.lastSyncedAt).getTime() : Infinity
+    if (!force && age < REFRESH_INTERVAL_MS) return
+
+    this.setStatus({ syncing: true })
+
+    try {
+      const lastSyncedAt = await refreshReplica()
+      this.setStatus({ lastSyncedAt })
+    } catch (error) {
+      console.error("Failed to refresh offline replica:", error)
+    } finally {
+      this.setStatus({ syncing: false })
+    }
+  }
+
+  private setStatus(changes: Partial<ReplicaStatus>) {
+    this.status = { ...this.status, ...changes }
+    this.listeners.forEach((listener) => listener(this.status))
+  }
+}
+
+export const replicaSync = new ReplicaSync()
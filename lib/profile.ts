@@ -0,0 +1,46 @@
+// Reading and updating the signed-in user's profile and settings
+
+import { supabase, type Profile } from "./supabase"
+import { getSession } from "./auth"
+
+export async function getProfile(userId: string): Promise<Profile | null> {
+  if (!supabase) return null
+
+  const { data, error } = await supabase.from("profiles").select("*").eq("id", userId).single()
+
+  if (error) {
+    console.error("Error fetching profile:", error)
+    return null
+  }
+
+  return data as Profile
+}
+
+export async function updateProfile(
+  userId: string,
+  changes: Partial<Pick<Profile, "full_name" | "keep_capture_details">>,
+): Promise<boolean> {
+  if (!supabase) return false
+
+  const { error } = await supabase
+    .from("profiles")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", userId)
+
+  if (error) {
+    console.error("Error updating profile:", error)
+    return false
+  }
+
+  return true
+}
+
+// Whether the signed-in user's photos should be saved with their capture date and camera model.
+// Falls back to not storing them when the setting can't be read.
+export async function getKeepCaptureDetails(): Promise<boolean> {
+  const { session } = await getSession()
+  if (!session) return false
+
+  const profile = await getProfile(session.user.id)
+  return profile?.keep_capture_details ?? false
+}
@@ -0,0 +1,510 @@
+// Self-contained QR code encoder (ISO/IEC 18004, byte mode, versions 1-40).
+// Runs entirely in the browser so QR codes work offline and bowl URLs never leave the app.
+
+export type QRErrorCorrection = "L" | "M" | "Q" | "H"
+
+export interface QRMatrix {
+  size: number
+  // modules[y][x] is true for a dark module
+  modules: boolean[][]
+}
+
+export interface QRRenderOptions {
+  // Output width/height in pixels, including the quiet zone
+  size: number
+  // Quiet zone around the code, in modules (the spec asks for 4)
+  margin?: number
+  dark?: string
+  light?: string
+}
+
+export const QR_ERROR_CORRECTION_LEVELS: Record<QRErrorCorrection, { label: string; description: string }> = {
+  L: { label: "Low", description: "~7% damage recoverable" },
+  M: { label: "Medium", description: "~15% damage recoverable" },
+  Q: { label: "Quartile", description: "~25% damage recoverable" },
+  H: { label: "High", description: "~30% damage recoverable" },
+}
+
+// Pixel sizes offered for download
+export const QR_SIZES = [128, 256, 512, 1024] as const
+
+const MIN_VERSION = 1
+const MAX_VERSION = 40
+
+// Index into the tables below, and the format-info bits for each level
+const ECL_INDEX: Record<QRErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 }
+const ECL_FORMAT_BITS: Record<QRErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 }
+
+// Error correction codewords per block, by level then version (index 0 unused)
+// prettier-ignore
+const ECC_CODEWORDS_PER_BLOCK = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+]
+
+// Number of error correction blocks, by level then version (index 0 unused)
+// prettier-ignore
+const NUM_ERROR_CORRECTION_BLOCKS = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+]
+
+// Mask penalty weights from the spec
+const PENALTY_N1 = 3
+const PENALTY_N2 = 3
+const PENALTY_N3 = 40
+const PENALTY_N4 = 10
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0
+
+// Number of modules available for data and error correction (everything except function patterns)
+function getNumRawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const numAlign = Math.floor(version / 7) + 2
+    result -= (25 * numAlign - 10) * numAlign - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+function getNumDataCodewords(version: number, ecl: QRErrorCorrection): number {
+  const level = ECL_INDEX[ecl]
+  return (
+    Math.floor(getNumRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[level][version] * NUM_ERROR_CORRECTION_BLOCKS[level][version]
+  )
+}
+
+// Multiply in GF(2^8) modulo x^8 + x^4 + x^3 + x^2 + 1
+function gfMultiply(x: number, y: number): number {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= gfMultiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+// Split data into blocks, add error correction to each, then interleave the blocks
+function addErrorCorrection(data: number[], version: number, ecl: QRErrorCorrection): number[] {
+  const level = ECL_INDEX[ecl]
+  const numBlocks = NUM_ERROR_CORRECTION_BLOCKS[level][version]
+  const blockEccLength = ECC_CODEWORDS_PER_BLOCK[level][version]
+  const rawCodewords = Math.floor(getNumRawDataModules(version) / 8)
+  const numShortBlocks = numBlocks - (rawCodewords % numBlocks)
+  const shortBlockLength = Math.floor(rawCodewords / numBlocks)
+
+  const divisor = reedSolomonDivisor(blockEccLength)
+  const blocks: number[][] = []
+
+  for (let i = 0, k = 0; i < numBlocks; i++) {
+    const blockData = data.slice(k, k + shortBlockLength - blockEccLength + (i < numShortBlocks ? 0 : 1))
+    k += blockData.length
+    const ecc = reedSolomonRemainder(blockData, divisor)
+    // Short blocks get a placeholder so every block has the same length while interleaving
+    if (i < numShortBlocks) blockData.push(0)
+    blocks.push(blockData.concat(ecc))
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      if (i !== shortBlockLength - blockEccLength || j >= numShortBlocks) {
+        result.push(block[i])
+      }
+    })
+  }
+  return result
+}
+
+function getAlignmentPatternPositions(version: number): number[] {
+  if (version === 1) return []
+
+  const size = version * 4 + 17
+  const numAlign = Math.floor(version / 7) + 2
+  const step = Math.floor((version * 8 + numAlign * 3 + 5) / (numAlign * 4 - 4)) * 2
+  const result = [6]
+  for (let position = size - 7; result.length < numAlign; position -= step) {
+    result.splice(1, 0, position)
+  }
+  return result
+}
+
+// Encode the text as UTF-8 bytes in byte mode, padded to the version's data capacity
+function encodeData(bytes: Uint8Array, version: number, ecl: QRErrorCorrection): number[] {
+  const bits: number[] = []
+  const appendBits = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  appendBits(0b0100, 4)
+  appendBits(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach((byte) => appendBits(byte, 8))
+
+  const capacityBits = getNumDataCodewords(version, ecl) * 8
+  appendBits(0, Math.min(4, capacityBits - bits.length))
+  appendBits(0, (8 - (bits.length % 8)) % 8)
+
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    appendBits(pad, 8)
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+// Build the symbol for a version: function patterns, data, then the chosen mask
+class QRBuilder {
+  readonly size: number
+  readonly modules: boolean[][]
+  private readonly isFunction: boolean[][]
+
+  constructor(
+    private readonly version: number,
+    private readonly ecl: QRErrorCorrection,
+  ) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.isFunction = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+  }
+
+  private setFunctionModule(x: number, y: number, dark: boolean) {
+    this.modules[y][x] = dark
+    this.isFunction[y][x] = true
+  }
+
+  drawFunctionPatterns() {
+    // Timing patterns
+    for (let i = 0; i < this.size; i++) {
+      this.setFunctionModule(6, i, i % 2 === 0)
+      this.setFunctionModule(i, 6, i % 2 === 0)
+    }
+
+    // Finder patterns (with separators) in three corners
+    this.drawFinderPattern(3, 3)
+    this.drawFinderPattern(this.size - 4, 3)
+    this.drawFinderPattern(3, this.size - 4)
+
+    // Alignment patterns, skipping the ones that would overlap the finders
+    const positions = getAlignmentPatternPositions(this.version)
+    const last = positions.length - 1
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignmentPattern(x, y)
+        }
+      })
+    })
+
+    // Reserve the format areas now; the real bits are drawn once the mask is known
+    this.drawFormatBits(0)
+    this.drawVersion()
+  }
+
+  private drawFinderPattern(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        const xx = x + dx
+        const yy = y + dy
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunctionModule(xx, yy, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+  }
+
+  private drawAlignmentPattern(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunctionModule(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }
+  }
+
+  drawFormatBits(mask: number) {
+    const data = (ECL_FORMAT_BITS[this.ecl] << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412
+
+    // First copy, around the top-left finder
+    for (let i = 0; i <= 5; i++) this.setFunctionModule(8, i, getBit(bits, i))
+    this.setFunctionModule(8, 7, getBit(bits, 6))
+    this.setFunctionModule(8, 8, getBit(bits, 7))
+    this.setFunctionModule(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) this.setFunctionModule(14 - i, 8, getBit(bits, i))
+
+    // Second copy, split between the other two finders
+    for (let i = 0; i < 8; i++) this.setFunctionModule(this.size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) this.setFunctionModule(8, this.size - 15 + i, getBit(bits, i))
+    this.setFunctionModule(8, this.size - 8, true) // Always dark
+  }
+
+  private drawVersion() {
+    if (this.version < 7) return
+
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    }
+    const bits = (this.version << 12) | remainder
+
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      this.setFunctionModule(a, b, getBit(bits, i))
+      this.setFunctionModule(b, a, getBit(bits, i))
+    }
+  }
+
+  // Place codewords in the zig-zag order, two columns at a time from the bottom right
+  drawCodewords(codewords: number[]) {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5 // Skip the vertical timing pattern
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (!this.isFunction[y][x] && i < codewords.length * 8) {
+            this.modules[y][x] = getBit(codewords[i >>> 3], 7 - (i & 7))
+            i++
+          }
+        }
+      }
+    }
+  }
+
+  // XOR the data area with a mask pattern; applying the same mask twice undoes it
+  applyMask(mask: number) {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        let invert: boolean
+        switch (mask) {
+          case 0:
+            invert = (x + y) % 2 === 0
+            break
+          case 1:
+            invert = y % 2 === 0
+            break
+          case 2:
+            invert = x % 3 === 0
+            break
+          case 3:
+            invert = (x + y) % 3 === 0
+            break
+          case 4:
+            invert = (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0
+            break
+          case 5:
+            invert = ((x * y) % 2) + ((x * y) % 3) === 0
+            break
+          case 6:
+            invert = (((x * y) % 2) + ((x * y) % 3)) % 2 === 0
+            break
+          default:
+            invert = (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+        }
+        if (!this.isFunction[y][x] && invert) {
+          this.modules[y][x] = !this.modules[y][x]
+        }
+      }
+    }
+  }
+
+  // Score how hard the symbol is to scan; lower is better
+  getPenaltyScore(): number {
+    let result = 0
+    const size = this.size
+    const at = (x: number, y: number) => this.modules[y][x]
+
+    // Runs of five or more same-coloured modules in a row or column
+    for (let a = 0; a < size; a++) {
+      for (const horizontal of [true, false]) {
+        let runColor = false
+        let runLength = 0
+        for (let b = 0; b < size; b++) {
+          const color = horizontal ? at(b, a) : at(a, b)
+          if (b > 0 && color === runColor) {
+            runLength++
+          } else {
+            if (runLength >= 5) result += PENALTY_N1 + (runLength - 5)
+            runColor = color
+            runLength = 1
+          }
+        }
+        if (runLength >= 5) result += PENALTY_N1 + (runLength - 5)
+      }
+    }
+
+    // 2x2 blocks of one colour
+    for (let y = 0; y < size - 1; y++) {
+      for (let x = 0; x < size - 1; x++) {
+        const color = at(x, y)
+        if (color === at(x + 1, y) && color === at(x, y + 1) && color === at(x + 1, y + 1)) {
+          result += PENALTY_N2
+        }
+      }
+    }
+
+    // Finder-like 1:1:3:1:1 patterns with four light modules on either side
+    const patterns = ["10111010000", "00001011101"]
+    for (let a = 0; a < size; a++) {
+      let row = ""
+      let column = ""
+      for (let b = 0; b < size; b++) {
+        row += at(b, a) ? "1" : "0"
+        column += at(a, b) ? "1" : "0"
+      }
+      for (const line of [row, column]) {
+        for (let start = 0; start + 11 <= size; start++) {
+          const window = line.substring(start, start + 11)
+          if (window === patterns[0] || window === patterns[1]) result += PENALTY_N3
+        }
+      }
+    }
+
+    // Balance of dark and light modules
+    let dark = 0
+    this.modules.forEach((row) => row.forEach((module) => module && dark++))
+    const total = size * size
+    const k = Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1
+    result += Math.max(0, k) * PENALTY_N4
+
+    return result
+  }
+}
+
+/**
+ * Encode text into a QR code matrix using the smallest version that fits.
+ * Pass `mask` (0-7) to force a mask pattern; otherwise the one with the lowest penalty is chosen.
+ */
+export function encodeQR(text: string, ecl: QRErrorCorrection = "M", mask?: number): QRMatrix {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = MIN_VERSION
+  for (; version <= MAX_VERSION; version++) {
+    const countBits = version <= 9 ? 8 : 16
+    if (4 + countBits + bytes.length * 8 <= getNumDataCodewords(version, ecl) * 8) break
+  }
+  if (version > MAX_VERSION) {
+    throw new Error("Text is too long to fit in a QR code")
+  }
+
+  const builder = new QRBuilder(version, ecl)
+  builder.drawFunctionPatterns()
+  builder.drawCodewords(addErrorCorrection(encodeData(bytes, version, ecl), version, ecl))
+
+  let chosenMask = mask ?? -1
+  if (chosenMask < 0) {
+    let minPenalty = Infinity
+    for (let candidate = 0; candidate < 8; candidate++) {
+      builder.applyMask(candidate)
+      builder.drawFormatBits(candidate)
+      const penalty = builder.getPenaltyScore()
+      if (penalty < minPenalty) {
+        chosenMask = candidate
+        minPenalty = penalty
+      }
+      builder.applyMask(candidate)
+    }
+  }
+
+  builder.applyMask(chosenMask)
+  builder.drawFormatBits(chosenMask)
+
+  return { size: builder.size, modules: builder.modules }
+}
+
+// Render as a standalone SVG document, one path for all dark modules
+export function qrToSvg(matrix: QRMatrix, { size, margin = 4, dark = "#000000", light = "#ffffff" }: QRRenderOptions) {
+  const dimension = matrix.size + margin * 2
+  let path = ""
+  matrix.modules.forEach((row, y) =>
+    row.forEach((module, x) => {
+      if (module) path += `M${x + margin},${y + margin}h1v1h-1z`
+    }),
+  )
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${size}" height="${size}" viewBox="0 0 ${dimension} ${dimension}" shape-rendering="crispEdges">` +
+    `<rect width="100%" height="100%" fill="${light}"/>` +
+    `<path d="${path}" fill="${dark}"/>` +
+    `</svg>`
+  )
+}
+
+export function qrToSvgDataUrl(matrix: QRMatrix, options: QRRenderOptions): string {
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(qrToSvg(matrix, options))}`
+}
+
+// Render to a PNG data URL via a canvas (browser only)
+export function qrToPngDataUrl(
+  matrix: QRMatrix,
+  { size, margin = 4, dark = "#000000", light = "#ffffff" }: QRRenderOptions,
+): string {
+  const canvas = document.createElement("canvas")
+  canvas.width = size
+  canvas.height = size
+
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new Error("Could not get canvas context")
+  }
+
+  const scale = size / (matrix.size + margin * 2)
+  ctx.fillStyle = light
+  ctx.fillRect(0, 0, size, size)
+  ctx.fillStyle = dark
+  matrix.modules.forEach((row, y) =>
+    row.forEach((module, x) => {
+      if (module) {
+        // Round edges to whole pixels so neighbouring modules don't leave hairline gaps
+        const left = Math.round((x + margin) * scale)
+        const top = Math.round((y + margin) * scale)
+        ctx.fillRect(left, top, Math.round((x + margin + 1) * scale) - left, Math.round((y + margin + 1) * scale) - top)
+      }
+    }),
+  )
+
+  return canvas.toDataURL("image/png")
+}
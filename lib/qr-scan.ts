@@ -0,0 +1,103 @@
+// QR code scanning from a live video stream.
+// Uses the browser's BarcodeDetector where available and falls back to jsQR on a canvas frame.
+
+import jsQR from "jsqr"
+
+// Minimal typing for the Shape Detection API, which isn't in TypeScript's DOM lib yet
+interface DetectedBarcode {
+  rawValue: string
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: CanvasImageSource): Promise<DetectedBarcode[]>
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance
+  getSupportedFormats?: () => Promise<string[]>
+}
+
+export type ScanTarget = "view" | "edit"
+
+// Frames larger than this are scaled down before jsQR runs, which keeps scanning smooth on phones
+const MAX_SCAN_DIMENSION = 640
+
+const BOWL_PATH_PATTERN = /^\/bowl\/([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})(?:\/edit)?\/?$/i
+
+/**
+ * Extract the bowl ID from a scanned QR value.
+ * Accepts full URLs (from any host, so tags printed from another deployment still work) and bare paths.
+ * Returns null if the code isn't one of our bowl links.
+ */
+export function parseBowlQrValue(value: string): string | null {
+  try {
+    const url = new URL(value.trim(), "http://localhost")
+    const match = url.pathname.match(BOWL_PATH_PATTERN)
+    return match ? match[1].toLowerCase() : null
+  } catch {
+    return null
+  }
+}
+
+export const getBowlScanPath = (bowlId: string, target: ScanTarget) =>
+  target === "edit" ? `/bowl/${bowlId}/edit` : `/bowl/${bowlId}`
+
+export class QRScanner {
+  private detector: BarcodeDetectorInstance | null = null
+  private canvas: HTMLCanvasElement | null = null
+  private ready: Promise<void>
+
+  constructor() {
+    this.ready = this.init()
+  }
+
+  // Prefer the native detector when it supports QR codes
+  private async init() {
+    const Detector = (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector
+    if (!Detector) return
+
+    try {
+      const formats = Detector.getSupportedFormats ? await Detector.getSupportedFormats() : ["qr_code"]
+      if (formats.includes("qr_code")) {
+        this.detector = new Detector({ formats: ["qr_code"] })
+      }
+    } catch (error) {
+      console.warn("BarcodeDetector unavailable, using jsQR:", error)
+    }
+  }
+
+  // Decode the current video frame; returns the QR text or null if none is visible
+  async scanFrame(video: HTMLVideoElement): Promise<string | null> {
+    await this.ready
+
+    if (!video.videoWidth || !video.videoHeight) return null
+
+    if (this.detector) {
+      try {
+        const codes = await this.detector.detect(video)
+        return codes[0]?.rawValue ?? null
+      } catch (error) {
+        console.warn("BarcodeDetector failed, falling back to jsQR:", error)
+        this.detector = null
+      }
+    }
+
+    const scale = Math.min(1, MAX_SCAN_DIMENSION / Math.max(video.videoWidth, video.videoHeight))
+    const width = Math.round(video.videoWidth * scale)
+    const height = Math.round(video.videoHeight * scale)
+
+    if (!this.canvas) {
+      this.canvas = document.createElement("canvas")
+    }
+    this.canvas.width = width
+    this.canvas.height = height
+
+    const ctx = this.canvas.getContext("2d", { willReadFrequently: true })
+    if (!ctx) return null
+
+    ctx.drawImage(video, 0, 0, width, height)
+    const frame = ctx.getImageData(0, 0, width, height)
+    const code = jsQR(frame.data, width, height, { inversionAttempts: "dontInvert" })
+    return code?.data ?? null
+  }
+}
@@ -0,0 +1,266 @@
+// Restore a collection from an archive produced by lib/export.ts.
+// Bowls are recreated under the current user and images are re-uploaded so every size is regenerated.
+
+import JSZip from "jszip"
+import { supabase } from "./supabase"
+import { EXPORT_FORMAT_VERSION, MANIFEST_FILE, type ExportManifest, type ExportedBowl } from "./export"
+import { saveBowl, type BowlImageEntry, type NewBowlImage } from "./bowl-save"
+import { getImageDimensions, processImage } from "./image-processing"
+
+// What to do with a bowl from the archive that already exists in the collection
+export type DuplicateStrategy = "skip" | "overwrite" | "copy"
+
+export const DUPLICATE_STRATEGIES: Record<DuplicateStrategy, { label: string; description: string }> = {
+  skip: { label: "Skip", description: "Keep the existing bowl and ignore the one in the archive" },
+  overwrite: { label: "Overwrite", description: "Replace the existing bowl's details, finishes and images" },
+  copy: { label: "Create copy", description: "Add the archived bowl as a new bowl alongside the existing one" },
+}
+
+export interface RestoreArchive {
+  manifest: ExportManifest
+  zip: JSZip
+}
+
+export interface BowlDuplicate {
+  existingId: string
+  // Matched on the same bowl ID, or on identical wood type, source and date
+  reason: "id" | "content"
+}
+
+export interface RestorePlan {
+  duplicates: Map<string, BowlDuplicate>
+  // Archive IDs already used by any bowl (possibly another user's), which can't be reused for new rows
+  takenIds: Set<string>
+}
+
+export interface RestoreResult {
+  created: number
+  overwritten: number
+  skipped: number
+  warnings: string[]
+}
+
+// IDs per .in() filter, keeping the request URL well under its length limit
+const ID_BATCH_SIZE = 100
+
+const contentKey = (bowl: { wood_type: string; wood_source: string; date_made: string }) =>
+  [bowl.wood_type, bowl.wood_source, bowl.date_made].map((value) => value.trim().toLowerCase()).join("|")
+
+// Open an archive and check it looks like one of our exports
+export async function readRestoreArchive(file: File): Promise<RestoreArchive> {
+  const zip = await JSZip.loadAsync(file)
+  const manifestFile = zip.file(MANIFEST_FILE)
+
+  if (!manifestFile) {
+    throw new Error(`This archive has no ${MANIFEST_FILE}. Choose a ZIP created by the export.`)
+  }
+
+  const manifest = JSON.parse(await manifestFile.async("string")) as ExportManifest
+
+  if (!Array.isArray(manifest.bowls)) {
+    throw new Error("The archive manifest has no bowls list")
+  }
+
+  if (manifest.version > EXPORT_FORMAT_VERSION) {
+    throw new Error(`This archive was made by a newer version of the app (format ${manifest.version})`)
+  }
+
+  return { manifest, zip }
+}
+
+/**
+ * Work out which archived bowls already exist, either by ID among the user's bowls or by matching content.
+ */
+export async function planRestore(manifest: ExportManifest, userId: string): Promise<RestorePlan> {
+  if (!supabase) {
+    throw new Error("Supabase client not initialized")
+  }
+
+  const archiveIds = manifest.bowls.map((bowl) => bowl.id)
+  const sameIds: { id: string; user_id: string | null }[] = []
+
+  for (let i = 0; i < archiveIds.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("bowls")
+      .select("id, user_id")
+      .in("id", archiveIds.slice(i, i + ID_BATCH_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to check for existing bowls: ${error.message}`)
+    }
+    sameIds.push(...data)
+  }
+
+  const { data: ownBowls, error: ownError } = await supabase
+    .from("bowls")
+    .select("id, wood_type, wood_source, date_made")
+    .eq("user_id", userId)
+
+  if (ownError) {
+    throw new Error(`Failed to check for existing bowls: ${ownError.message}`)
+  }
+
+  const takenIds = new Set(sameIds.map((bowl) => bowl.id))
+  const ownIds = new Set(sameIds.filter((bowl) => bowl.user_id === userId).map((bowl) => bowl.id))
+  const byContent = new Map((ownBowls || []).map((bowl) => [contentKey(bowl), bowl.id as string]))
+
+  const duplicates = new Map<string, BowlDuplicate>()
+
+  for (const bowl of manifest.bowls) {
+    if (ownIds.has(bowl.id)) {
+      duplicates.set(bowl.id, { existingId: bowl.id, reason: "id" })
+    } else if (byContent.has(contentKey(bowl))) {
+      duplicates.set(bowl.id, { existingId: byContent.get(contentKey(bowl))!, reason: "content" })
+    }
+  }
+
+  return { duplicates, takenIds }
+}
+
+// IDs of a bowl's current images in display order
+async function getBowlImageIds(bowlId: string): Promise<string[]> {
+  const { data, error } = await supabase!
+    .from("bowl_images")
+    .select("id")
+    .eq("bowl_id", bowlId)
+    .order("display_order", { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load existing images: ${error.message}`)
+  }
+
+  return data.map((image) => image.id as string)
+}
+
+// Run the archived originals through the normal image pipeline. Images that can't be read are reported and left out.
+async function prepareImages(
+  zip: JSZip,
+  bowl: ExportedBowl,
+  warnings: string[],
+): Promise<{ images: NewBowlImage[]; failed: number }> {
+  const archived = [...bowl.images].sort((a, b) => a.display_order - b.display_order)
+  const images: NewBowlImage[] = []
+  let failed = 0
+
+  for (const image of archived) {
+    const entry = image.file ? zip.file(image.file) : null
+
+    if (!entry) {
+      warnings.push(`Image ${image.id} for ${bowl.wood_type} (${bowl.date_made}) is missing from the archive`)
+      failed++
+      continue
+    }
+
+    try {
+      const blob = await entry.async("blob")
+      const file = new File([blob], image.file!.split("/").pop() || `${image.id}.jpg`, { type: "image/jpeg" })
+
+      const processed = await processImage(file)
+      const dimensions = image.original_dimensions || (await getImageDimensions(file))
+
+      // The archived file was re-encoded without EXIF, so the capture details come from the manifest
+      const metadata = { capturedAt: image.captured_at ?? null, cameraModel: image.camera_model ?? null }
+
+      images.push({ processed, fileSize: file.size, dimensions, metadata })
+    } catch (error) {
+      console.error(`Error restoring image ${image.id}:`, error)
+      warnings.push(
+        `Image ${image.id} for ${bowl.wood_type} (${bowl.date_made}): ${error instanceof Error ? error.message : "processing failed"}`,
+      )
+      failed++
+    }
+  }
+
+  return { images, failed }
+}
+
+// Take an overwritten bowl out of the trash first, since save_bowl doesn't write to trashed bowls
+async function takeOutOfTrash(bowlId: string) {
+  const { error } = await supabase!
+    .from("bowls")
+    .update({ deleted_at: null })
+    .eq("id", bowlId)
+    .not("deleted_at", "is", null)
+
+  if (error) {
+    throw new Error(`Failed to take bowl out of the trash: ${error.message}`)
+  }
+}
+
+// Save one bowl with its stage, finishes and images in a single transaction
+async function saveRestoredBowl(bowl: ExportedBowl, bowlId: string, images: BowlImageEntry[], create: boolean) {
+  await saveBowl(
+    bowlId,
+    {
+      woodType: bowl.wood_type,
+      woodSource: bowl.wood_source,
+      dateMade: bowl.date_made,
+      comments: bowl.comments || "",
+      finishes: bowl.finishes,
+      stage: bowl.current_stage,
+      stageNote: "Restored from backup",
+      driedAt: bowl.dried_at ?? null,
+    },
+    images,
+    { create },
+  )
+}
+
+/**
+ * Recreate every bowl in the archive under the user, handling duplicates with the chosen strategy.
+ * A failure on one bowl is recorded as a warning and the restore carries on with the next.
+ */
+export async function restoreCollection(
+  archive: RestoreArchive,
+  plan: RestorePlan,
+  strategy: DuplicateStrategy,
+  onProgress?: (done: number, total: number) => void,
+): Promise<RestoreResult> {
+  const result: RestoreResult = { created: 0, overwritten: 0, skipped: 0, warnings: [] }
+  const { bowls } = archive.manifest
+  onProgress?.(0, bowls.length)
+
+  for (const [index, bowl] of bowls.entries()) {
+    const duplicate = plan.duplicates.get(bowl.id)
+
+    try {
+      if (duplicate && strategy === "skip") {
+        result.skipped++
+      } else if (duplicate && strategy === "overwrite") {
+        const { images, failed } = await prepareImages(archive.zip, bowl, result.warnings)
+        let imageEntries: BowlImageEntry[] = images
+
+        // Only replace the images when every archived one is back, so a partial archive never loses photos
+        if (failed > 0) {
+          const existingIds = await getBowlImageIds(duplicate.existingId)
+          if (existingIds.length > 0) {
+            imageEntries = existingIds.map((id) => ({ id }))
+            result.warnings.push(
+              `${bowl.wood_type} (${bowl.date_made}): kept its previous images because not every archived image could be restored`,
+            )
+          }
+        }
+
+        await takeOutOfTrash(duplicate.existingId)
+        await saveRestoredBowl(bowl, duplicate.existingId, imageEntries, false)
+        result.overwritten++
+      } else {
+        // Keep the original ID when it's free so existing QR codes and links still work
+        const targetId = plan.takenIds.has(bowl.id) ? crypto.randomUUID() : bowl.id
+        const { images } = await prepareImages(archive.zip, bowl, result.warnings)
+        await saveRestoredBowl(bowl, targetId, images, true)
+        plan.takenIds.add(targetId)
+        result.created++
+      }
+    } catch (error) {
+      console.error(`Error restoring bowl ${bowl.id}:`, error)
+      result.warnings.push(
+        `${bowl.wood_type} (${bowl.date_made}): ${error instanceof Error ? error.message : "Unknown error"}`,
+      )
+    }
+
+    onProgress?.(index + 1, bowls.length)
+  }
+
+  return result
+}
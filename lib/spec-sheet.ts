@@ -0,0 +1,185 @@
+// One-page PDF spec sheet / certificate of authenticity for a bowl, generated in the browser
+
+import { jsPDF } from "jspdf"
+import { encodeQR, qrToPngDataUrl } from "./qr-code"
+import { shortBowlId } from "./labels"
+import { STAGE_LABELS } from "./stages"
+import type { BowlStageName } from "./supabase"
+
+export interface SpecSheetBowl {
+  id: string
+  woodType: string
+  woodSource: string
+  dateMade: string
+  finishes: string[]
+  comments: string
+  stage?: BowlStageName
+  driedAt?: string | null
+  createdBy?: string
+  // URL of the hero image (the bowl's primary `full` size image)
+  heroImage?: string
+}
+
+// General care advice printed on every sheet
+export const CARE_INSTRUCTIONS =
+  "Hand wash with warm water and mild soap, then dry straight away. Never put the bowl in the dishwasher, " +
+  "microwave or oven, and don't leave it soaking. Keep it out of direct sunlight and away from heaters. " +
+  "If the surface starts to look dry, wipe on a thin coat of food-safe mineral oil or board butter."
+
+// Page geometry (US Letter, millimetres)
+const PAGE_WIDTH = 215.9
+const PAGE_HEIGHT = 279.4
+const MARGIN = 18
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2
+const HERO_MAX_HEIGHT = 95
+const QR_SIZE = 32
+
+// Amber-900 and gray tones matching the app
+const TITLE_COLOR: [number, number, number] = [120, 53, 15]
+const LABEL_COLOR: [number, number, number] = [120, 113, 108]
+const TEXT_COLOR: [number, number, number] = [28, 25, 23]
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" })
+
+// Fetch an image and return it as a data URL jsPDF can embed, or null if it can't be loaded
+async function loadImageDataUrl(url: string): Promise<{ data: string; format: "JPEG" | "PNG" } | null> {
+  try {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+    const blob = await response.blob()
+
+    // jsPDF only embeds JPEG and PNG; other formats (a preset may store WebP or AVIF) are redrawn as JPEG
+    if (blob.type !== "image/jpeg" && blob.type !== "image/png") {
+      const bitmap = await createImageBitmap(blob)
+      const canvas = document.createElement("canvas")
+      canvas.width = bitmap.width
+      canvas.height = bitmap.height
+      canvas.getContext("2d")!.drawImage(bitmap, 0, 0)
+      bitmap.close()
+      return { data: canvas.toDataURL("image/jpeg", 0.92), format: "JPEG" }
+    }
+
+    const data = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader()
+      reader.onload = () => resolve(reader.result as string)
+      reader.onerror = () => reject(reader.error)
+      reader.readAsDataURL(blob)
+    })
+    return { data, format: blob.type === "image/png" ? "PNG" : "JPEG" }
+  } catch (error) {
+    console.error("Error loading image for spec sheet:", error)
+    return null
+  }
+}
+
+/**
+ * Build the spec sheet PDF.
+ * `recordUrl` is encoded in the QR code so the card links back to the bowl's page.
+ */
+export async function generateSpecSheet(bowl: SpecSheetBowl, recordUrl: string): Promise<Blob> {
+  const doc = new jsPDF({ unit: "mm", format: "letter" })
+  let y = MARGIN
+
+  // Heading
+  doc.setFont("helvetica", "normal")
+  doc.setFontSize(10)
+  doc.setTextColor(...LABEL_COLOR)
+  doc.text("CERTIFICATE OF AUTHENTICITY", PAGE_WIDTH / 2, y, { align: "center" })
+  y += 10
+
+  doc.setFont("helvetica", "bold")
+  doc.setFontSize(24)
+  doc.setTextColor(...TITLE_COLOR)
+  doc.text(bowl.woodType, PAGE_WIDTH / 2, y, { align: "center" })
+  y += 4
+
+  // Hero image, scaled to fit the content width and height limit
+  const heroImage = bowl.heroImage ? await loadImageDataUrl(bowl.heroImage) : null
+  if (heroImage) {
+    const { width, height } = doc.getImageProperties(heroImage.data)
+    const scale = Math.min(CONTENT_WIDTH / width, HERO_MAX_HEIGHT / height)
+    const imageWidth = width * scale
+    const imageHeight = height * scale
+    doc.addImage(heroImage.data, heroImage.format, (PAGE_WIDTH - imageWidth) / 2, y + 4, imageWidth, imageHeight)
+    y += imageHeight + 12
+  } else {
+    y += 8
+  }
+
+  // Field list
+  const fields: [string, string][] = [
+    ["Wood species", bowl.woodType],
+    ["Wood source", bowl.woodSource || "-"],
+    ["Date made", formatDate(bowl.dateMade)],
+    ["Finishes", bowl.finishes.length > 0 ? bowl.finishes.join(", ") : "-"],
+  ]
+  if (bowl.stage) fields.push(["Stage", STAGE_LABELS[bowl.stage]])
+  if (bowl.driedAt) fields.push(["Dried", formatDate(bowl.driedAt)])
+  fields.push(["Maker", bowl.createdBy || "-"])
+  fields.push(["Reference", `#${shortBowlId(bowl.id)}`])
+
+  doc.setFontSize(11)
+  fields.forEach(([label, value]) => {
+    doc.setFont("helvetica", "bold")
+    doc.setTextColor(...LABEL_COLOR)
+    doc.text(label, MARGIN, y)
+
+    doc.setFont("helvetica", "normal")
+    doc.setTextColor(...TEXT_COLOR)
+    const lines = doc.splitTextToSize(value, CONTENT_WIDTH - 40)
+    doc.text(lines, MARGIN + 40, y)
+    y += 6 * lines.length
+  })
+
+  // Bottom of the page is reserved for the QR code and signature line
+  const footerTop = PAGE_HEIGHT - MARGIN - QR_SIZE - 4
+
+  const paragraph = (title: string, text: string) => {
+    if (!text || y + 12 > footerTop) return
+
+    y += 4
+    doc.setFont("helvetica", "bold")
+    doc.setFontSize(11)
+    doc.setTextColor(...TITLE_COLOR)
+    doc.text(title, MARGIN, y)
+    y += 6
+
+    doc.setFont("helvetica", "normal")
+    doc.setFontSize(10)
+    doc.setTextColor(...TEXT_COLOR)
+    const lines: string[] = doc.splitTextToSize(text, CONTENT_WIDTH)
+    // Trim long text so it never runs into the footer
+    const maxLines = Math.max(1, Math.floor((footerTop - y) / 5))
+    const shown = lines.length > maxLines ? [...lines.slice(0, maxLines - 1), `${lines[maxLines - 1]}...`] : lines
+    doc.text(shown, MARGIN, y)
+    y += 5 * shown.length
+  }
+
+  paragraph("Notes", bowl.comments)
+  paragraph("Care", CARE_INSTRUCTIONS)
+
+  // QR code back to the record
+  const qrTop = PAGE_HEIGHT - MARGIN - QR_SIZE
+  const qrImage = qrToPngDataUrl(encodeQR(recordUrl, "M"), { size: 512, margin: 2 })
+  doc.addImage(qrImage, "PNG", PAGE_WIDTH - MARGIN - QR_SIZE, qrTop, QR_SIZE, QR_SIZE)
+  doc.setFontSize(8)
+  doc.setTextColor(...LABEL_COLOR)
+  doc.text("Scan for this bowl's record", PAGE_WIDTH - MARGIN - QR_SIZE / 2, qrTop + QR_SIZE + 3, {
+    align: "center",
+  })
+
+  // Signature and date lines
+  const lineY = qrTop + QR_SIZE - 8
+  doc.setDrawColor(...LABEL_COLOR)
+  doc.setLineWidth(0.3)
+  doc.line(MARGIN, lineY, MARGIN + 85, lineY)
+  doc.line(MARGIN + 95, lineY, MARGIN + 135, lineY)
+  doc.setFontSize(9)
+  doc.text("Maker's signature", MARGIN, lineY + 5)
+  doc.text("Date", MARGIN + 95, lineY + 5)
+
+  return doc.output("blob")
+}
@@ -0,0 +1,86 @@
+import { supabase, isSupabaseConfigured, type BowlStage, type BowlStageName } from "./supabase"
+
+// Ordered list of lifecycle stages - a bowl only ever moves forward through these
+export const BOWL_STAGES: BowlStageName[] = ["rough-turned", "drying", "final-turned", "finished", "sold"]
+
+export const STAGE_LABELS: Record<BowlStageName, string> = {
+  "rough-turned": "Rough Turned",
+  drying: "Drying",
+  "final-turned": "Final Turned",
+  finished: "Finished",
+  sold: "Sold",
+}
+
+// Tailwind classes for the stage badge shown on cards and the timeline
+export const STAGE_COLORS: Record<BowlStageName, string> = {
+  "rough-turned": "bg-orange-100 text-orange-800 border-orange-200",
+  drying: "bg-sky-100 text-sky-800 border-sky-200",
+  "final-turned": "bg-violet-100 text-violet-800 border-violet-200",
+  finished: "bg-green-100 text-green-800 border-green-200",
+  sold: "bg-gray-100 text-gray-700 border-gray-200",
+}
+
+// Get the stage that follows the given one, or null if the bowl is at the last stage
+export function getNextStage(stage: BowlStageName): BowlStageName | null {
+  const index = BOWL_STAGES.indexOf(stage)
+  return index >= 0 && index < BOWL_STAGES.length - 1 ? BOWL_STAGES[index + 1] : null
+}
+
+// Fetch the stage history for a bowl, oldest transition first
+export async function getBowlStageHistory(bowlId: string): Promise<BowlStage[]> {
+  if (!isSupabaseConfigured() || !supabase) {
+    console.error("Supabase not configured")
+    return []
+  }
+
+  const { data, error } = await supabase
+    .from("bowl_stages")
+    .select("*")
+    .eq("bowl_id", bowlId)
+    .order("changed_at", { ascending: true })
+
+  if (error) {
+    console.error("Error fetching stage history:", error)
+    return []
+  }
+
+  return data || []
+}
+
+// Record a stage transition and update the bowl's current stage
+export async function setBowlStage(
+  bowlId: string,
+  stage: BowlStageName,
+  note: string | null,
+  userId: string | null,
+): Promise<boolean> {
+  if (!isSupabaseConfigured() || !supabase) {
+    console.error("Supabase not configured")
+    return false
+  }
+
+  try {
+    const { error: historyError } = await supabase.from("bowl_stages").insert({
+      bowl_id: bowlId,
+      stage,
+      note: note || null,
+      user_id: userId,
+    })
+
+    if (historyError) {
+      throw new Error(`Failed to record stage: ${historyError.message}`)
+    }
+
+    // The bowls trigger bumps updated_at, so editors that loaded the old stage see a conflict
+    const { error: bowlError } = await supabase.from("bowls").update({ current_stage: stage }).eq("id", bowlId)
+
+    if (bowlError) {
+      throw new Error(`Failed to update bowl stage: ${bowlError.message}`)
+    }
+
+    return true
+  } catch (error) {
+    console.error("Error in setBowlStage:", error)
+    return false
+  }
+}
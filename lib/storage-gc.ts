@@ -0,0 +1,183 @@
+// Garbage collection for the bowl-images bucket: finds stored files that no image row points at
+// (left behind by failed uploads, interrupted edits or removed images) and optionally removes them.
+// Only the folders of the signed-in user's own bowls are looked at, never the rest of the bucket.
+
+import { supabase } from "./supabase"
+import { getImageRecordPaths, IMAGE_PATH_COLUMNS, type ImagePathRecord } from "./storage"
+
+const BUCKET = "bowl-images"
+
+// Every upload lives under bowls/{bowlId}/...
+const bowlPrefix = (bowlId: string) => `bowls/${bowlId}`
+
+const LIST_PAGE_SIZE = 1000
+const ROW_PAGE_SIZE = 1000
+const DELETE_BATCH_SIZE = 100
+
+// Files younger than this are left alone: their bowl_images row may not have been written yet
+const GRACE_PERIOD_MS = 60 * 60 * 1000
+
+export interface StoredFile {
+  path: string
+  size: number
+  createdAt: string | null
+  bowlId: string
+}
+
+export interface StorageReport {
+  totalFiles: number
+  totalBytes: number
+  orphans: StoredFile[]
+  orphanBytes: number
+  // Unreferenced files skipped because they are newer than the grace period
+  recentSkipped: number
+  // Files actually removed; always 0 for a dry run
+  deleted: number
+  dryRun: boolean
+}
+
+// Recursively list every file below `prefix`; folders come back from the API without an id
+async function listFiles(prefix: string, files: StoredFile[]): Promise<void> {
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase!.storage
+      .from(BUCKET)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: "name", order: "asc" } })
+
+    if (error) {
+      throw new Error(`Failed to list ${prefix}: ${error.message}`)
+    }
+
+    for (const item of data) {
+      const path = `${prefix}/${item.name}`
+      if (item.id === null) {
+        await listFiles(path, files)
+      } else {
+        files.push({
+          path,
+          size: Number(item.metadata?.size ?? 0),
+          createdAt: item.created_at ?? null,
+          bowlId: path.split("/")[1],
+        })
+      }
+    }
+
+    if (data.length < LIST_PAGE_SIZE) return
+  }
+}
+
+// Tables whose rows own stored files: current images, and removed ones kept for the revision history
+const IMAGE_TABLES = ["bowl_images", "removed_bowl_images"] as const
+
+// Every storage path referenced by the image rows of the user's bowls
+async function getReferencedPaths(userId: string): Promise<Set<string>> {
+  const paths = new Set<string>()
+
+  for (const table of IMAGE_TABLES) {
+    for (let from = 0; ; from += ROW_PAGE_SIZE) {
+      const { data, error } = await supabase!
+        .from(table)
+        .select(`id, ${IMAGE_PATH_COLUMNS}, bowls!inner(user_id)`)
+        .eq("bowls.user_id", userId)
+        .order("id", { ascending: true })
+        .range(from, from + ROW_PAGE_SIZE - 1)
+
+      if (error) {
+        throw new Error(`Failed to load image records: ${error.message}`)
+      }
+
+      ;(data as ImagePathRecord[]).forEach((record) => getImageRecordPaths(record).forEach((path) => paths.add(path)))
+
+      if (data.length < ROW_PAGE_SIZE) break
+    }
+  }
+
+  return paths
+}
+
+// IDs of the user's bowls, including those in the trash
+async function getUserBowlIds(userId: string): Promise<string[]> {
+  const ids: string[] = []
+
+  for (let from = 0; ; from += ROW_PAGE_SIZE) {
+    const { data, error } = await supabase!
+      .from("bowls")
+      .select("id")
+      .eq("user_id", userId)
+      .order("id", { ascending: true })
+      .range(from, from + ROW_PAGE_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load bowls: ${error.message}`)
+    }
+
+    data.forEach((bowl) => ids.push(bowl.id))
+
+    if (data.length < ROW_PAGE_SIZE) return ids
+  }
+}
+
+/**
+ * Cross-reference the user's bowl folders with their bowl_images and report (or, unless `dryRun`,
+ * delete) orphaned files. `onStatus` receives short messages describing the current step.
+ */
+export async function collectOrphanedFiles(
+  userId: string,
+  dryRun: boolean,
+  onStatus: (status: string) => void,
+): Promise<StorageReport> {
+  if (!supabase) {
+    throw new Error("Supabase client not initialized")
+  }
+
+  onStatus("Loading your bowls...")
+  const bowlIds = await getUserBowlIds(userId)
+
+  onStatus("Listing stored files...")
+  const files: StoredFile[] = []
+  for (const bowlId of bowlIds) {
+    await listFiles(bowlPrefix(bowlId), files)
+  }
+
+  onStatus("Loading image records...")
+  const referenced = await getReferencedPaths(userId)
+
+  const cutoff = Date.now() - GRACE_PERIOD_MS
+  const orphans: StoredFile[] = []
+  let recentSkipped = 0
+
+  files.forEach((file) => {
+    if (referenced.has(file.path)) return
+
+    if (file.createdAt && new Date(file.createdAt).getTime() > cutoff) {
+      recentSkipped++
+      return
+    }
+    orphans.push(file)
+  })
+
+  let deleted = 0
+  if (!dryRun && orphans.length > 0) {
+    onStatus(`Deleting ${orphans.length} files...`)
+    // Batched here rather than through deleteImageSet so the report counts what was really removed
+    for (let i = 0; i < orphans.length; i += DELETE_BATCH_SIZE) {
+      const batch = orphans.slice(i, i + DELETE_BATCH_SIZE).map((file) => file.path)
+      const { data, error } = await supabase.storage.from(BUCKET).remove(batch)
+
+      if (error) {
+        console.error("Error deleting orphaned files:", error)
+      } else {
+        deleted += data.length
+      }
+    }
+  }
+
+  return {
+    totalFiles: files.length,
+    totalBytes: files.reduce((sum, file) => sum + file.size, 0),
+    orphans,
+    orphanBytes: orphans.reduce((sum, file) => sum + file.size, 0),
+    recentSkipped,
+    deleted,
+    dryRun,
+  }
+}
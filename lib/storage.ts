@@ -1,14 +1,19 @@
-import { supabase, isSupabaseConfigured } from "./supabase"
-import type { ProcessedImage } from "./image-processing"
+import { supabase, isSupabaseConfigured, type StoredImageVariant } from "./supabase"
+import { getEncodedVariants, type ProcessedImage } from "./image-processing"
+import { STANDARD_IMAGE_SIZES, getFormatExtension } from "./image-presets"
+import { stripPrivateMetadata } from "./exif"
 
 export interface UploadedImageSet {
-  thumbnail: { url: string; path: string }
-  medium: { url: string; path: string }
-  full: { url: string; path: string }
-  original: { url: string; path: string }
+  // Same order as the processed variants: each preset's fallback first
+  variants: StoredImageVariant[]
 }
 
-// Upload a processed image set to Supabase Storage
+// Every file path in an uploaded set, for cleaning up after a failed save
+export function getUploadedPaths(uploaded: UploadedImageSet): string[] {
+  return uploaded.variants.map((variant) => variant.path)
+}
+
+// Upload a processed image set to Supabase Storage, one folder per preset
 export async function uploadImageSet(
   processedImages: ProcessedImage,
   bowlId: string,
@@ -23,31 +28,50 @@ export async function uploadImageSet(
     const randomId = Math.random().toString(36).substring(7)
     const baseFileName = `${timestamp}-${randomId}`
 
-    const results: Partial<UploadedImageSet> = {}
-
-    // Upload each size
-    const sizes: (keyof ProcessedImage)[] = ["thumbnail", "medium", "full", "original"]
+    const variants: StoredImageVariant[] = []
+    const encoded = getEncodedVariants(processedImages)
+    const uploadedNames = new Set<string>()
+    const skipped: string[] = []
 
-    for (const size of sizes) {
-      const base64Image = processedImages[size]
-      const filePath = `bowls/${bowlId}/${size}/${baseFileName}.jpg`
+    for (const variant of encoded) {
+      const filePath = `bowls/${bowlId}/${variant.name}/${baseFileName}.${getFormatExtension(variant.format)}`
+      // The first encoding of each preset is its fallback; the rest are optional alternate formats
+      const isFallback = !uploadedNames.has(variant.name)
 
       try {
-        const uploadResult = await uploadSingleImage(base64Image, filePath)
+        const uploadResult = await uploadSingleImage(variant.data, filePath)
         if (uploadResult) {
-          results[size] = uploadResult
+          variants.push({ name: variant.name, format: variant.format, bytes: variant.bytes, ...uploadResult })
+          uploadedNames.add(variant.name)
         } else {
-          throw new Error(`Failed to upload ${size} image`)
+          throw new Error(`Failed to upload ${variant.name} image`)
         }
       } catch (error) {
-        console.error(`Error uploading ${size} image:`, error)
+        if (!isFallback) {
+          console.warn(`Skipping ${variant.format} copy of ${variant.name} image:`, error)
+          skipped.push(`${variant.name} ${variant.format}`)
+          continue
+        }
+        console.error(`Error uploading ${variant.name} image:`, error)
         // Clean up any successful uploads
-        await cleanupPartialUpload(results)
+        await cleanupPartialUpload(variants.map((uploaded) => uploaded.path))
         throw error
       }
     }
 
-    return results as UploadedImageSet
+    // The sizes the app displays must all be there, or it would show placeholders for them
+    const missing = STANDARD_IMAGE_SIZES.find((size) => !uploadedNames.has(size))
+    if (missing) {
+      await cleanupPartialUpload(variants.map((uploaded) => uploaded.path))
+      throw new Error(`Processed image has no ${missing} size`)
+    }
+
+    if (skipped.length > 0) {
+      // Usually the bucket rejecting a format; the fallback files are served instead
+      console.warn(`Stored image without ${skipped.length} alternate formats (${skipped.join(", ")})`)
+    }
+
+    return { variants }
   } catch (error) {
     console.error("Error in uploadImageSet:", error)
     return null
@@ -65,7 +89,7 @@ async function uploadSingleImage(base64Image: string, filePath: string): Promise
       throw new Error("Invalid base64 image format")
     }
 
-    const mimeType = "image/jpeg" // We're converting everything to JPEG for consistency
+    const mimeType = meta.match(/data:([^;]+)/)?.[1] || "image/jpeg"
 
     // Convert base64 to bytes
     const binaryString = atob(data)
@@ -74,10 +98,13 @@ async function uploadSingleImage(base64Image: string, filePath: string): Promise
       bytes[i] = binaryString.charCodeAt(i)
     }
 
+    // The bucket is public: GPS, serial number and owner metadata must never reach it
+    const scrubbedBytes = stripPrivateMetadata(bytes, mimeType)
+
     console.log(`Uploading image to path: ${filePath}`)
 
     // Upload to Supabase Storage
-    const { data: uploadData, error } = await supabase.storage.from("bowl-images").upload(filePath, bytes, {
+    const { data: uploadData, error } = await supabase.storage.from("bowl-images").upload(filePath, scrubbedBytes, {
       contentType: mimeType,
       upsert: true,
     })
@@ -107,17 +134,9 @@ async function uploadSingleImage(base64Image: string, filePath: string): Promise
 }
 
 // Clean up partial uploads if something fails
-async function cleanupPartialUpload(partialResults: Partial<UploadedImageSet>) {
+async function cleanupPartialUpload(pathsToDelete: string[]) {
   if (!supabase) return
 
-  const pathsToDelete: string[] = []
-
-  Object.values(partialResults).forEach((result) => {
-    if (result?.path) {
-      pathsToDelete.push(result.path)
-    }
-  })
-
   if (pathsToDelete.length > 0) {
     try {
       await supabase.storage.from("bowl-images").remove(pathsToDelete)
@@ -177,7 +196,23 @@ export async function deleteImage(path: string): Promise<boolean> {
   return path ? deleteImageSet([path]) : false
 }
 
-// Get all image paths for a bowl to clean up when deleting
+// Columns holding storage paths on a bowl_images row
+export const IMAGE_PATH_COLUMNS = "storage_path, variants"
+
+export type ImagePathRecord = {
+  storage_path?: string | null
+  variants?: { path: string }[] | null
+}
+
+// Every stored file for one image record: all its variants and the legacy storage_path, without duplicates
+export function getImageRecordPaths(record: ImagePathRecord): string[] {
+  const paths = [record.storage_path, ...(record.variants ?? []).map((variant) => variant.path)].filter(
+    (path): path is string => !!path,
+  )
+  return [...new Set(paths)]
+}
+
+// Get all image paths for a bowl to clean up when deleting, including images kept for its revision history
 export async function getBowlImagePaths(bowlId: string): Promise<string[]> {
   if (!isSupabaseConfigured() || !supabase) {
     console.error("Supabase not configured")
@@ -187,32 +222,27 @@ export async function getBowlImagePaths(bowlId: string): Promise<string[]> {
   try {
     console.log(`Fetching image paths for bowl: ${bowlId}`)
 
-    const { data, error } = await supabase
-      .from("bowl_images")
-      .select("thumbnail_path, medium_path, full_path, original_path, storage_path")
-      .eq("bowl_id", bowlId)
+    const [current, removed] = await Promise.all([
+      supabase.from("bowl_images").select(IMAGE_PATH_COLUMNS).eq("bowl_id", bowlId),
+      supabase.from("removed_bowl_images").select(IMAGE_PATH_COLUMNS).eq("bowl_id", bowlId),
+    ])
 
+    const error = current.error || removed.error
     if (error) {
       console.error("Error getting bowl image paths:", error)
       return []
     }
 
-    if (!data || data.length === 0) {
+    const data = [...(current.data ?? []), ...(removed.data ?? [])]
+
+    if (data.length === 0) {
       console.log("No images found for this bowl")
       return []
     }
 
     console.log(`Found ${data.length} image records`)
 
-    const paths: string[] = []
-    data.forEach((item) => {
-      // Add all available paths, including legacy storage_path
-      if (item.thumbnail_path) paths.push(item.thumbnail_path)
-      if (item.medium_path) paths.push(item.medium_path)
-      if (item.full_path) paths.push(item.full_path)
-      if (item.original_path) paths.push(item.original_path)
-      if (item.storage_path) paths.push(item.storage_path)
-    })
+    const paths = data.flatMap(getImageRecordPaths)
 
     console.log(`Collected ${paths.length} total image paths`)
     return paths
@@ -1,4 +1,5 @@
 import { createClient } from "@supabase/supabase-js"
+import { getImagePreset, type ImageFormat, type StandardImageSize } from "./image-presets"
 
 // These environment variables need to be set in your deployment
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || ""
@@ -20,14 +21,39 @@ export type Bowl = {
   date_made: string
   comments: string | null
   user_id: string | null
+  current_stage: BowlStageName
+  dried_at: string | null
   created_at: string
   updated_at: string
+  deleted_at: string | null // Set while the bowl is in its owner's trash
+}
+
+// Lifecycle stages a bowl moves through, in order
+export type BowlStageName = "rough-turned" | "drying" | "final-turned" | "finished" | "sold"
+
+export type BowlStage = {
+  id: string
+  bowl_id: string
+  stage: BowlStageName
+  note: string | null
+  changed_at: string
+  user_id: string | null
+}
+
+export type BowlMeasurement = {
+  id: string
+  bowl_id: string
+  measured_at: string
+  weight_grams: number
+  moisture_percent: number | null
+  created_at: string
 }
 
 export type Profile = {
   id: string
   email: string | null
   full_name: string | null
+  keep_capture_details: boolean // Store capture date and camera model read from photo EXIF
   created_at: string
   updated_at: string
 }
@@ -41,81 +67,106 @@ export type BowlFinish = {
 export type BowlImage = {
   id: string
   bowl_id: string
-  image_url: string // Legacy field
+  image_url: string // Legacy field, the medium variant's URL
   storage_path: string // Legacy field
-  thumbnail_url?: string
-  thumbnail_path?: string
-  medium_url?: string
-  medium_path?: string
-  full_url?: string
-  full_path?: string
-  original_url?: string
-  original_path?: string
+  variants?: StoredImageVariant[] | null
   file_size?: number
   original_dimensions?: { width: number; height: number }
+  captured_at?: string | null // From the photo's EXIF, in the camera's local time
+  camera_model?: string | null
   display_order: number
 }
 
-export type BowlImageUrls = {
-  thumbnail: string
-  medium: string
-  full: string
-  original: string
+// One image preset (see lib/image-presets) stored in one format. For each preset the first entry is
+// the fallback served to every browser; any further entries are smaller alternate formats.
+export type StoredImageVariant = {
+  name: string
+  format: ImageFormat
+  url: string
+  path: string
+  bytes: number | null // Not recorded for images stored before presets were configurable
+}
+
+export type BowlImageUrls = Record<StandardImageSize, string>
+
+// The fallback variant of one preset, if the image has it
+export const getImageVariant = (image: Pick<BowlImage, "variants">, name: string): StoredImageVariant | undefined =>
+  image.variants?.find((variant) => variant.name === name)
+
+// Placeholder sized like the preset it stands in for
+const placeholderUrl = (name: StandardImageSize) => {
+  const preset = getImagePreset(name)
+  return `/placeholder.svg?height=${preset?.maxHeight ?? 400}&width=${preset?.maxWidth ?? 400}`
 }
 
 // Helper function to get the best available image URL for each size
-export const getImageUrls = (image: BowlImage): BowlImageUrls => {
+export const getImageUrls = (image: Pick<BowlImage, "image_url" | "variants">): BowlImageUrls => {
+  const url = (size: StandardImageSize) => getImageVariant(image, size)?.url || image.image_url || placeholderUrl(size)
+
   return {
-    thumbnail: image.thumbnail_url || image.image_url || "/placeholder.svg?height=150&width=150",
-    medium: image.medium_url || image.image_url || "/placeholder.svg?height=400&width=400",
-    full: image.full_url || image.image_url || "/placeholder.svg?height=800&width=800",
-    original: image.original_url || image.image_url || "/placeholder.svg?height=1200&width=1200",
+    thumbnail: url("thumbnail"),
+    medium: url("medium"),
+    full: url("full"),
+    original: url("original"),
   }
 }
 
-// Helper function to convert database bowl to frontend bowl format
-export const mapDatabaseBowlToFrontend = async (bowl: Bowl, imageOrder: 'newest-first' | 'oldest-first' = 'newest-first') => {
-  if (!supabase) {
-    throw new Error("Supabase not configured")
-  }
+export type ImageOrder = "newest-first" | "oldest-first"
 
-  // Get finishes for this bowl
-  const { data: finishesData } = await supabase.from("bowl_finishes").select("finish_name").eq("bowl_id", bowl.id)
+// Bowl row with its finishes and images embedded via a single select.
+// Rows read from the bowl_list view also carry the creator's display name.
+export type BowlWithRelations = Bowl & {
+  bowl_finishes: Pick<BowlFinish, "finish_name">[] | null
+  bowl_images: BowlImage[] | null
+  creator_name?: string
+}
 
-  const { data: imagesData } = await supabase
-    .from("bowl_images")
-    .select("*")
-    .eq("bowl_id", bowl.id)
-    .order("display_order", { ascending: imageOrder === 'oldest-first' })
+// Select string that embeds finishes and images alongside each bowl
+export const BOWL_WITH_RELATIONS_SELECT = "*, bowl_finishes(finish_name), bowl_images(*)"
 
-  // Get creator profile if user_id exists
-  let creatorName = "Unknown"
-  if (bowl.user_id) {
-    const { data: profileData } = await supabase
-      .from("profiles")
-      .select("full_name, email")
-      .eq("id", bowl.user_id)
-      .single()
-
-    if (profileData) {
-      creatorName = profileData.full_name || profileData.email || "Unknown"
-    }
+// Look up creator display names for a set of users in one query
+const fetchCreatorNames = async (userIds: (string | null)[]): Promise<Map<string, string>> => {
+  const names = new Map<string, string>()
+  const uniqueIds = [...new Set(userIds.filter((id): id is string => !!id))]
+
+  if (!supabase || uniqueIds.length === 0) {
+    return names
+  }
+
+  const { data: profilesData, error } = await supabase.from("profiles").select("id, full_name, email").in("id", uniqueIds)
+
+  if (error) {
+    console.error("Error fetching creator profiles:", error)
   }
 
+  profilesData?.forEach((profile) => {
+    names.set(profile.id, profile.full_name || profile.email || "Unknown")
+  })
+
+  return names
+}
+
+// Build the frontend bowl shape from a bowl row and its related data
+const toFrontendBowl = (
+  bowl: Bowl,
+  finishes: Pick<BowlFinish, "finish_name">[],
+  images: BowlImage[],
+  creatorName: string,
+) => {
   // Process images to get the best available URLs
-  const processedImages =
-    imagesData?.map((img) => {
-      const urls = getImageUrls(img)
-      return {
-        id: img.id,
-        thumbnail: urls.thumbnail,
-        medium: urls.medium,
-        full: urls.full,
-        original: urls.original,
-        dimensions: img.original_dimensions,
-        fileSize: img.file_size,
-      }
-    }) || []
+  const processedImages = images.map((img) => {
+    const urls = getImageUrls(img)
+    return {
+      id: img.id,
+      thumbnail: urls.thumbnail,
+      medium: urls.medium,
+      full: urls.full,
+      original: urls.original,
+      dimensions: img.original_dimensions,
+      fileSize: img.file_size,
+      variants: img.variants ?? [],
+    }
+  })
 
   return {
     id: bowl.id,
@@ -123,10 +174,75 @@ export const mapDatabaseBowlToFrontend = async (bowl: Bowl, imageOrder: 'newest-
     woodSource: bowl.wood_source,
     dateMade: bowl.date_made,
     comments: bowl.comments || "",
-    finishes: finishesData?.map((f) => f.finish_name) || [],
+    finishes: finishes.map((f) => f.finish_name),
     images: processedImages,
+    stage: bowl.current_stage,
+    driedAt: bowl.dried_at,
     createdAt: bowl.created_at,
     userId: bowl.user_id,
     createdBy: creatorName,
   }
 }
+
+export type FrontendBowl = ReturnType<typeof toFrontendBowl>
+
+// Convert bowls that were loaded with BOWL_WITH_RELATIONS_SELECT to the frontend format.
+// Creator profiles are resolved with a single in() lookup, so the cost does not grow with the number of bowls.
+export const mapBowlsWithRelationsToFrontend = async (
+  bowls: BowlWithRelations[],
+  imageOrder: ImageOrder = "newest-first",
+): Promise<FrontendBowl[]> => {
+  // Only look up profiles for rows that did not come with a creator name
+  const creatorNames = await fetchCreatorNames(
+    bowls.filter((bowl) => bowl.creator_name === undefined).map((bowl) => bowl.user_id),
+  )
+
+  return bowls.map((bowl) => {
+    const images = [...(bowl.bowl_images || [])].sort((a, b) =>
+      imageOrder === "oldest-first" ? a.display_order - b.display_order : b.display_order - a.display_order,
+    )
+    const creatorName = bowl.creator_name || (bowl.user_id && creatorNames.get(bowl.user_id)) || "Unknown"
+    return toFrontendBowl(bowl, bowl.bowl_finishes || [], images, creatorName)
+  })
+}
+
+// Load every bowl with finishes, images and creator names in two queries
+export const fetchBowlsWithRelations = async (imageOrder: ImageOrder = "newest-first"): Promise<FrontendBowl[]> => {
+  if (!supabase) {
+    throw new Error("Supabase not configured")
+  }
+
+  const { data, error } = await supabase
+    .from("bowls")
+    .select(BOWL_WITH_RELATIONS_SELECT)
+    .is("deleted_at", null)
+    .order("date_made", { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to fetch bowls: ${error.message}`)
+  }
+
+  return mapBowlsWithRelationsToFrontend(data as BowlWithRelations[], imageOrder)
+}
+
+// Helper function to convert a single database bowl to frontend bowl format
+export const mapDatabaseBowlToFrontend = async (bowl: Bowl, imageOrder: ImageOrder = "newest-first") => {
+  if (!supabase) {
+    throw new Error("Supabase not configured")
+  }
+
+  // Get finishes for this bowl
+  const { data: finishesData } = await supabase.from("bowl_finishes").select("finish_name").eq("bowl_id", bowl.id)
+
+  const { data: imagesData } = await supabase
+    .from("bowl_images")
+    .select("*")
+    .eq("bowl_id", bowl.id)
+    .order("display_order", { ascending: imageOrder === "oldest-first" })
+
+  // Get creator profile if user_id exists
+  const creatorNames = await fetchCreatorNames([bowl.user_id])
+  const creatorName = (bowl.user_id && creatorNames.get(bowl.user_id)) || "Unknown"
+
+  return toFrontendBowl(bowl, finishesData || [], imagesData || [], creatorName)
+}
@@ -0,0 +1,147 @@
+// Soft delete for bowls: deleted bowls sit in their owner's trash for TRASH_RETENTION_DAYS
+// and can be restored until then. After that they are purged along with their image files.
+
+import { supabase, getImageVariant } from "./supabase"
+import { deleteImageSet, getBowlImagePaths } from "./storage"
+
+// Days a deleted bowl stays restorable, read from the environment
+export const TRASH_RETENTION_DAYS = Number(process.env.NEXT_PUBLIC_TRASH_RETENTION_DAYS) || 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface TrashedBowl {
+  id: string
+  wood_type: string
+  wood_source: string
+  date_made: string
+  deleted_at: string
+  thumbnailUrl: string | null
+}
+
+// When a bowl deleted at `deletedAt` will be purged
+export function getPurgeDate(deletedAt: string): Date {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY_MS)
+}
+
+// Whole days left before a trashed bowl is purged (0 once it is due)
+export function getDaysUntilPurge(deletedAt: string, now: Date = new Date()): number {
+  return Math.max(0, Math.ceil((getPurgeDate(deletedAt).getTime() - now.getTime()) / DAY_MS))
+}
+
+export async function moveBowlToTrash(bowlId: string): Promise<void> {
+  if (!supabase) {
+    throw new Error("Supabase client not initialized")
+  }
+
+  const { data, error } = await supabase
+    .from("bowls")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", bowlId)
+    .is("deleted_at", null)
+    .select("id")
+
+  if (error) {
+    throw new Error(`Failed to move bowl to trash: ${error.message}`)
+  }
+  // RLS hides other users' bowls, so no row means it isn't yours or is already in the trash
+  if (data.length === 0) {
+    throw new Error("Bowl not found, not yours, or already in the trash")
+  }
+}
+
+export async function restoreBowlFromTrash(bowlId: string): Promise<void> {
+  if (!supabase) {
+    throw new Error("Supabase client not initialized")
+  }
+
+  const { error } = await supabase.from("bowls").update({ deleted_at: null }).eq("id", bowlId)
+
+  if (error) {
+    throw new Error(`Failed to restore bowl: ${error.message}`)
+  }
+}
+
+// The user's trashed bowls, most recently deleted first
+export async function getTrashedBowls(userId: string): Promise<TrashedBowl[]> {
+  if (!supabase) return []
+
+  const { data, error } = await supabase
+    .from("bowls")
+    .select("id, wood_type, wood_source, date_made, deleted_at, bowl_images(image_url, variants, display_order)")
+    .eq("user_id", userId)
+    .not("deleted_at", "is", null)
+    .order("deleted_at", { ascending: false })
+
+  if (error) {
+    console.error("Error fetching trashed bowls:", error)
+    return []
+  }
+
+  return data.map(({ bowl_images, ...bowl }) => {
+    const first = [...(bowl_images || [])].sort((a, b) => a.display_order - b.display_order)[0]
+    return {
+      ...bowl,
+      deleted_at: bowl.deleted_at as string,
+      thumbnailUrl: first ? getImageVariant(first, "thumbnail")?.url || first.image_url : null,
+    }
+  })
+}
+
+/**
+ * Permanently delete a trashed bowl and its image files.
+ * The paths are collected before the row goes, since the cascade removes the image records with it.
+ * If the bowl was restored meanwhile (e.g. on another device) nothing is deleted, files included.
+ */
+export async function purgeBowl(bowlId: string): Promise<void> {
+  if (!supabase) {
+    throw new Error("Supabase client not initialized")
+  }
+
+  const imagePaths = await getBowlImagePaths(bowlId)
+
+  const { data, error } = await supabase
+    .from("bowls")
+    .delete()
+    .eq("id", bowlId)
+    .not("deleted_at", "is", null)
+    .select("id")
+
+  if (error) {
+    throw new Error(`Failed to delete bowl: ${error.message}`)
+  }
+
+  if (data.length > 0) {
+    await deleteImageSet(imagePaths)
+  }
+}
+
+// Purge every bowl of the user's that has been in the trash longer than the retention period.
+// Returns how many were purged; failures are logged and retried on the next run.
+export async function purgeExpiredTrash(userId: string): Promise<number> {
+  if (!supabase) return 0
+
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY_MS).toISOString()
+
+  const { data, error } = await supabase
+    .from("bowls")
+    .select("id")
+    .eq("user_id", userId)
+    .lt("deleted_at", cutoff)
+
+  if (error) {
+    console.error("Error fetching expired trash:", error)
+    return 0
+  }
+
+  let purged = 0
+  for (const bowl of data) {
+    try {
+      await purgeBowl(bowl.id)
+      purged++
+    } catch (purgeError) {
+      console.error(`Error purging bowl ${bowl.id}:`, purgeError)
+    }
+  }
+
+  return purged
+}
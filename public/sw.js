@@ -1,6 +1,8 @@
-const CACHE_VERSION = 2
+const CACHE_VERSION = 3
 const STATIC_CACHE = `bowl-tracker-static-v${CACHE_VERSION}`
 const DYNAMIC_CACHE = `bowl-tracker-dynamic-v${CACHE_VERSION}`
+// Filled by the app's offline replica (lib/offline-replica.ts), so it survives version bumps
+const PAGES_CACHE = "bowl-tracker-pages"
 
 // Essential files to cache
 const STATIC_FILES = ["/manifest.json"]
@@ -33,7 +35,7 @@ self.addEventListener("activate", (event) => {
       .then((cacheNames) => {
         return Promise.all(
           cacheNames.map((cacheName) => {
-            if (cacheName !== STATIC_CACHE && cacheName !== DYNAMIC_CACHE) {
+            if (cacheName !== STATIC_CACHE && cacheName !== DYNAMIC_CACHE && cacheName !== PAGES_CACHE) {
               console.log("Deleting old cache:", cacheName)
               return caches.delete(cacheName)
             }
@@ -60,6 +62,27 @@ self.addEventListener("fetch", (event) => {
     return
   }
 
+  // Build assets are content-hashed, so cache them on first use - the add page needs its scripts to work offline
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(request).then((cachedResponse) => {
+        return (
+          cachedResponse ||
+          fetch(request).then((response) => {
+            if (response && response.status === 200) {
+              const responseToCache = response.clone()
+              caches.open(STATIC_CACHE).then((cache) => {
+                cache.put(request, responseToCache)
+              })
+            }
+            return response
+          })
+        )
+      }),
+    )
+    return
+  }
+
   // Skip API routes and Supabase requests - always fetch fresh
   if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/_next/") || url.hostname.includes("supabase")) {
     return
@@ -0,0 +1,53 @@
+-- Track turning lifecycle stages for each bowl
+-- Stages: rough-turned -> drying -> final-turned -> finished -> sold
+
+-- Current stage is kept on the bowl itself so the grid can show it without a join
+ALTER TABLE bowls
+ADD COLUMN IF NOT EXISTS current_stage TEXT NOT NULL DEFAULT 'finished'
+  CHECK (current_stage IN ('rough-turned', 'drying', 'final-turned', 'finished', 'sold'));
+
+-- Create stage history table (one row per transition)
+CREATE TABLE IF NOT EXISTS bowl_stages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bowl_id UUID REFERENCES bowls(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL CHECK (stage IN ('rough-turned', 'drying', 'final-turned', 'finished', 'sold')),
+  note TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_bowl_stages_bowl_id_changed_at ON bowl_stages(bowl_id, changed_at);
+
+-- Existing bowls were all recorded once complete, so seed their history with a single "finished" entry
+INSERT INTO bowl_stages (bowl_id, stage, changed_at, user_id)
+SELECT id, current_stage, created_at, user_id
+FROM bowls
+WHERE NOT EXISTS (SELECT 1 FROM bowl_stages WHERE bowl_stages.bowl_id = bowls.id);
+
+-- RLS policies mirror bowl_finishes: everyone can read, only bowl owners can write
+ALTER TABLE bowl_stages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Enable read access for all users" ON bowl_stages;
+DROP POLICY IF EXISTS "Enable insert for bowl owners only" ON bowl_stages;
+DROP POLICY IF EXISTS "Enable delete for bowl owners only" ON bowl_stages;
+
+CREATE POLICY "Enable read access for all users" ON bowl_stages
+  FOR SELECT USING (true);
+
+CREATE POLICY "Enable insert for bowl owners only" ON bowl_stages
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM bowls
+      WHERE bowls.id = bowl_stages.bowl_id
+      AND bowls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Enable delete for bowl owners only" ON bowl_stages
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM bowls
+      WHERE bowls.id = bowl_stages.bowl_id
+      AND bowls.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,54 @@
+-- Drying tracker: per-bowl weight / moisture log
+
+-- Set automatically once weight loss levels off (see lib/drying.ts)
+ALTER TABLE bowls ADD COLUMN IF NOT EXISTS dried_at DATE;
+
+-- Create measurements table
+CREATE TABLE IF NOT EXISTS bowl_measurements (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bowl_id UUID REFERENCES bowls(id) ON DELETE CASCADE,
+  measured_at DATE NOT NULL DEFAULT CURRENT_DATE,
+  weight_grams NUMERIC(8, 1) NOT NULL CHECK (weight_grams > 0),
+  moisture_percent NUMERIC(4, 1) CHECK (moisture_percent >= 0 AND moisture_percent <= 100),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_bowl_measurements_bowl_id_measured_at ON bowl_measurements(bowl_id, measured_at);
+
+-- RLS policies mirror bowl_images: everyone can read, only bowl owners can write
+ALTER TABLE bowl_measurements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Enable read access for all users" ON bowl_measurements;
+DROP POLICY IF EXISTS "Enable insert for bowl owners only" ON bowl_measurements;
+DROP POLICY IF EXISTS "Enable update for bowl owners only" ON bowl_measurements;
+DROP POLICY IF EXISTS "Enable delete for bowl owners only" ON bowl_measurements;
+
+CREATE POLICY "Enable read access for all users" ON bowl_measurements
+  FOR SELECT USING (true);
+
+CREATE POLICY "Enable insert for bowl owners only" ON bowl_measurements
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM bowls
+      WHERE bowls.id = bowl_measurements.bowl_id
+      AND bowls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Enable update for bowl owners only" ON bowl_measurements
+  FOR UPDATE USING (
+    EXISTS (
+      SELECT 1 FROM bowls
+      WHERE bowls.id = bowl_measurements.bowl_id
+      AND bowls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Enable delete for bowl owners only" ON bowl_measurements
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM bowls
+      WHERE bowls.id = bowl_measurements.bowl_id
+      AND bowls.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,19 @@
+-- View used by the home page grid for server-side sorting and filtering
+-- Adds the creator's display name so bowls can be sorted and searched by creator without a client-side join
+
+CREATE OR REPLACE VIEW bowl_list
+WITH (security_invoker = true) AS
+SELECT
+  bowls.*,
+  COALESCE(profiles.full_name, profiles.email, 'Unknown') AS creator_name
+FROM bowls
+LEFT JOIN profiles ON profiles.id = bowls.user_id;
+
+GRANT SELECT ON bowl_list TO anon, authenticated;
+
+-- Indexes for the sort options offered on the grid
+CREATE INDEX IF NOT EXISTS idx_bowls_date_made ON bowls(date_made);
+CREATE INDEX IF NOT EXISTS idx_bowls_created_at ON bowls(created_at);
+CREATE INDEX IF NOT EXISTS idx_bowls_wood_type ON bowls(wood_type);
+CREATE INDEX IF NOT EXISTS idx_bowls_user_id ON bowls(user_id);
+CREATE INDEX IF NOT EXISTS idx_bowl_finishes_finish_name ON bowl_finishes(finish_name);
@@ -0,0 +1,133 @@
+-- Full-text search across bowls, their finishes and creator profiles
+
+-- Search vector stored on each bowl, kept up to date by the triggers below
+ALTER TABLE bowls ADD COLUMN IF NOT EXISTS search_vector TSVECTOR;
+
+CREATE INDEX IF NOT EXISTS idx_bowls_search_vector ON bowls USING GIN(search_vector);
+
+-- Plain-text document for a bowl, used for highlighted snippets
+CREATE OR REPLACE FUNCTION public.bowl_search_document(b bowls)
+RETURNS TEXT AS $$
+  SELECT concat_ws(' · ',
+    b.wood_type,
+    (SELECT string_agg(finish_name, ', ' ORDER BY finish_name) FROM bowl_finishes WHERE bowl_id = b.id),
+    b.wood_source,
+    (SELECT COALESCE(full_name, email) FROM profiles WHERE id = b.user_id),
+    b.comments
+  )
+$$ LANGUAGE sql STABLE;
+
+-- Weighted search vector: wood type ranks highest, comments lowest
+CREATE OR REPLACE FUNCTION public.bowl_search_vector(b bowls)
+RETURNS TSVECTOR AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(b.wood_type, '')), 'A') ||
+    setweight(to_tsvector('english', COALESCE(
+      (SELECT string_agg(finish_name, ' ') FROM bowl_finishes WHERE bowl_id = b.id), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(b.wood_source, '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(
+      (SELECT COALESCE(full_name, email) FROM profiles WHERE id = b.user_id), '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(b.comments, '')), 'D')
+$$ LANGUAGE sql STABLE;
+
+-- Turn free text into a prefix-matching query: "wal tung" -> 'wal':* & 'tung':*
+CREATE OR REPLACE FUNCTION public.bowl_search_query(search_text TEXT)
+RETURNS TSQUERY AS $$
+  SELECT CASE
+    WHEN count(*) = 0 THEN NULL
+    ELSE to_tsquery('english', string_agg(quote_literal(term) || ':*', ' & '))
+  END
+  FROM regexp_split_to_table(lower(COALESCE(search_text, '')), '[^[:alnum:]]+') AS term
+  WHERE term <> ''
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Recompute the vector whenever a bowl is written
+CREATE OR REPLACE FUNCTION public.update_bowl_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := public.bowl_search_vector(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bowls_search_vector_update ON bowls;
+CREATE TRIGGER bowls_search_vector_update
+  BEFORE INSERT OR UPDATE OF wood_type, wood_source, comments, user_id, search_vector ON bowls
+  FOR EACH ROW EXECUTE FUNCTION public.update_bowl_search_vector();
+
+-- Finishes and profile names live in other tables, so changes there refresh the affected bowls
+CREATE OR REPLACE FUNCTION public.refresh_bowl_search_from_finishes()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE bowls SET search_vector = NULL WHERE id = COALESCE(NEW.bowl_id, OLD.bowl_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS bowl_finishes_search_refresh ON bowl_finishes;
+CREATE TRIGGER bowl_finishes_search_refresh
+  AFTER INSERT OR UPDATE OR DELETE ON bowl_finishes
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_bowl_search_from_finishes();
+
+CREATE OR REPLACE FUNCTION public.refresh_bowl_search_from_profiles()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE bowls SET search_vector = NULL WHERE user_id = NEW.id;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS profiles_search_refresh ON profiles;
+CREATE TRIGGER profiles_search_refresh
+  AFTER UPDATE OF full_name, email ON profiles
+  FOR EACH ROW EXECUTE FUNCTION public.refresh_bowl_search_from_profiles();
+
+-- Backfill existing bowls (the trigger computes the real value)
+UPDATE bowls SET search_vector = NULL;
+
+-- Ranked search with the same filters as the home page grid.
+-- Snippets mark matches with chr(2)/chr(3) so the client can highlight them without rendering HTML.
+CREATE OR REPLACE FUNCTION public.search_bowls(
+  search_text TEXT,
+  wood_filter TEXT DEFAULT NULL,
+  finish_filter TEXT DEFAULT NULL,
+  creator_filter UUID DEFAULT NULL,
+  date_from DATE DEFAULT NULL,
+  date_to DATE DEFAULT NULL,
+  result_limit INTEGER DEFAULT 24,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (bowl_id UUID, rank REAL, snippet TEXT, total_count BIGINT) AS $$
+  WITH search AS (
+    SELECT public.bowl_search_query(search_text) AS query
+  ),
+  matches AS (
+    SELECT
+      b.id,
+      b.date_made,
+      ts_rank_cd(b.search_vector, search.query) AS rank,
+      public.bowl_search_document(b) AS document
+    FROM bowls b, search
+    WHERE search.query IS NOT NULL
+      AND b.search_vector @@ search.query
+      AND (wood_filter IS NULL OR b.wood_type ILIKE '%' || wood_filter || '%')
+      AND (finish_filter IS NULL OR EXISTS (
+        SELECT 1 FROM bowl_finishes f
+        WHERE f.bowl_id = b.id AND f.finish_name ILIKE '%' || finish_filter || '%'
+      ))
+      AND (creator_filter IS NULL OR b.user_id = creator_filter)
+      AND (date_from IS NULL OR b.date_made >= date_from)
+      AND (date_to IS NULL OR b.date_made <= date_to)
+  )
+  SELECT
+    matches.id,
+    matches.rank,
+    ts_headline('english', matches.document, search.query,
+      format('StartSel=%s, StopSel=%s, MaxWords=25, MinWords=8, MaxFragments=2', chr(2), chr(3))),
+    count(*) OVER ()
+  FROM matches, search
+  ORDER BY matches.rank DESC, matches.date_made DESC
+  LIMIT result_limit OFFSET result_offset
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_bowls(TEXT, TEXT, TEXT, UUID, DATE, DATE, INTEGER, INTEGER) TO anon, authenticated;
@@ -0,0 +1,113 @@
+-- Optimistic concurrency for bowl edits
+-- save_bowl gains p_expected_updated_at: the updated_at the editor loaded. If the bowl has been saved
+-- since, nothing is written and the call fails with SQLSTATE 40001 so the client can offer a merge.
+
+-- Adding a parameter creates a new overload, so drop the old signature first
+DROP FUNCTION IF EXISTS public.save_bowl(UUID, JSONB, TEXT[], JSONB, BOOLEAN, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.save_bowl(
+  p_bowl_id UUID,
+  p_fields JSONB,
+  p_finishes TEXT[],
+  p_images JSONB,
+  p_create BOOLEAN DEFAULT FALSE,
+  p_stage TEXT DEFAULT NULL,
+  p_stage_note TEXT DEFAULT NULL,
+  p_expected_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT[] AS $$
+DECLARE
+  removed_paths TEXT[];
+BEGIN
+  IF p_create THEN
+    INSERT INTO bowls (id, wood_type, wood_source, date_made, comments, user_id, current_stage)
+    VALUES (
+      p_bowl_id,
+      p_fields->>'wood_type',
+      p_fields->>'wood_source',
+      (p_fields->>'date_made')::DATE,
+      NULLIF(p_fields->>'comments', ''),
+      auth.uid(),
+      COALESCE(p_stage, 'finished')
+    );
+  ELSE
+    -- Only update the version the editor loaded; RLS hides other users' bowls, so a missing row
+    -- with no conflict also covers "not yours"
+    UPDATE bowls SET
+      wood_type = p_fields->>'wood_type',
+      wood_source = p_fields->>'wood_source',
+      date_made = (p_fields->>'date_made')::DATE,
+      comments = NULLIF(p_fields->>'comments', ''),
+      current_stage = COALESCE(p_stage, current_stage),
+      updated_at = NOW()
+    WHERE id = p_bowl_id
+      AND (p_expected_updated_at IS NULL OR updated_at = p_expected_updated_at);
+
+    IF NOT FOUND THEN
+      IF p_expected_updated_at IS NOT NULL AND EXISTS (
+        SELECT 1 FROM bowls WHERE id = p_bowl_id AND user_id = auth.uid()
+      ) THEN
+        RAISE EXCEPTION 'Bowl % was changed by someone else', p_bowl_id USING ERRCODE = '40001';
+      END IF;
+      RAISE EXCEPTION 'Bowl % not found or you do not own it', p_bowl_id USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  -- Stage history: the starting stage for new bowls, or a transition when editing
+  IF p_stage IS NOT NULL THEN
+    INSERT INTO bowl_stages (bowl_id, stage, note, user_id)
+    VALUES (p_bowl_id, p_stage, NULLIF(p_stage_note, ''), auth.uid());
+  END IF;
+
+  -- Finishes: only remove and add what changed
+  DELETE FROM bowl_finishes
+  WHERE bowl_id = p_bowl_id AND finish_name <> ALL (COALESCE(p_finishes, '{}'));
+
+  INSERT INTO bowl_finishes (bowl_id, finish_name)
+  SELECT DISTINCT p_bowl_id, finish_name
+  FROM unnest(COALESCE(p_finishes, '{}')) AS finish_name
+  ON CONFLICT (bowl_id, finish_name) DO NOTHING;
+
+  -- Images: delete the ones no longer listed, collecting their files for cleanup
+  WITH removed AS (
+    DELETE FROM bowl_images
+    WHERE bowl_id = p_bowl_id
+      AND id NOT IN (
+        SELECT (value->>'id')::UUID FROM jsonb_array_elements(p_images) WHERE value ? 'id'
+      )
+    RETURNING thumbnail_path, medium_path, full_path, original_path, storage_path
+  )
+  SELECT COALESCE(array_agg(DISTINCT path) FILTER (WHERE path IS NOT NULL), '{}')
+  INTO removed_paths
+  FROM removed, unnest(ARRAY[thumbnail_path, medium_path, full_path, original_path, storage_path]) AS path;
+
+  -- Reorder the images that are kept
+  UPDATE bowl_images SET display_order = img.ord - 1
+  FROM jsonb_array_elements(p_images) WITH ORDINALITY AS img(value, ord)
+  WHERE img.value ? 'id'
+    AND bowl_images.id = (img.value->>'id')::UUID
+    AND bowl_images.bowl_id = p_bowl_id;
+
+  -- Insert the new images at their positions
+  INSERT INTO bowl_images (
+    bowl_id, image_url, storage_path,
+    thumbnail_url, thumbnail_path, medium_url, medium_path,
+    full_url, full_path, original_url, original_path,
+    file_size, original_dimensions, display_order
+  )
+  SELECT
+    p_bowl_id, r.image_url, r.storage_path,
+    r.thumbnail_url, r.thumbnail_path, r.medium_url, r.medium_path,
+    r.full_url, r.full_path, r.original_url, r.original_path,
+    r.file_size, r.original_dimensions, img.ord - 1
+  FROM jsonb_array_elements(p_images) WITH ORDINALITY AS img(value, ord),
+    jsonb_populate_record(NULL::bowl_images, img.value) AS r
+  WHERE NOT img.value ? 'id';
+
+  RETURN removed_paths;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
+
+-- Runs with the caller's permissions, so the existing RLS policies still apply to every statement
+GRANT EXECUTE ON FUNCTION public.save_bowl(UUID, JSONB, TEXT[], JSONB, BOOLEAN, TEXT, TEXT, TIMESTAMP WITH TIME ZONE)
+  TO authenticated;
@@ -0,0 +1,113 @@
+-- Revision history for bowls
+-- Triggers on bowls, bowl_finishes and bowl_images store a snapshot of the whole bowl after every change.
+-- Changes made in the same transaction (e.g. one save_bowl call) are folded into a single revision.
+
+CREATE TABLE IF NOT EXISTS bowl_revisions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bowl_id UUID NOT NULL REFERENCES bowls(id) ON DELETE CASCADE,
+  transaction_id BIGINT NOT NULL DEFAULT txid_current(),
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  snapshot JSONB NOT NULL,
+  UNIQUE (bowl_id, transaction_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bowl_revisions_bowl_id_changed_at ON bowl_revisions(bowl_id, changed_at);
+
+-- The editable state of a bowl; images are recorded as IDs in display order
+CREATE OR REPLACE FUNCTION public.bowl_revision_snapshot(p_bowl_id UUID)
+RETURNS JSONB AS $$
+  SELECT jsonb_build_object(
+    'wood_type', b.wood_type,
+    'wood_source', b.wood_source,
+    'date_made', b.date_made,
+    'comments', b.comments,
+    'current_stage', b.current_stage,
+    'dried_at', b.dried_at,
+    'finishes', COALESCE(
+      (SELECT jsonb_agg(finish_name ORDER BY finish_name) FROM bowl_finishes WHERE bowl_id = b.id), '[]'::JSONB),
+    'images', COALESCE(
+      (SELECT jsonb_agg(id ORDER BY display_order, id) FROM bowl_images WHERE bowl_id = b.id), '[]'::JSONB)
+  )
+  FROM bowls b
+  WHERE b.id = p_bowl_id
+$$ LANGUAGE sql STABLE;
+
+-- Record (or update this transaction's) revision for a bowl.
+-- Runs as the table owner because users can't write to bowl_revisions directly.
+CREATE OR REPLACE FUNCTION public.record_bowl_revision(p_bowl_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  current_snapshot JSONB;
+  previous_snapshot JSONB;
+BEGIN
+  current_snapshot := public.bowl_revision_snapshot(p_bowl_id);
+
+  -- The bowl itself is being deleted; its history goes with it
+  IF current_snapshot IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT snapshot INTO previous_snapshot
+  FROM bowl_revisions
+  WHERE bowl_id = p_bowl_id AND transaction_id <> txid_current()
+  ORDER BY changed_at DESC
+  LIMIT 1;
+
+  -- Nothing visible changed (e.g. only updated_at or the search vector)
+  IF current_snapshot = previous_snapshot THEN
+    DELETE FROM bowl_revisions WHERE bowl_id = p_bowl_id AND transaction_id = txid_current();
+    RETURN;
+  END IF;
+
+  INSERT INTO bowl_revisions (bowl_id, user_id, snapshot)
+  VALUES (p_bowl_id, auth.uid(), current_snapshot)
+  ON CONFLICT (bowl_id, transaction_id) DO UPDATE SET snapshot = EXCLUDED.snapshot;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.bowls_record_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.record_bowl_revision(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Shared by bowl_finishes and bowl_images
+CREATE OR REPLACE FUNCTION public.bowl_children_record_revision()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.record_bowl_revision(COALESCE(NEW.bowl_id, OLD.bowl_id));
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS bowls_record_revision ON bowls;
+CREATE TRIGGER bowls_record_revision
+  AFTER INSERT OR UPDATE ON bowls
+  FOR EACH ROW EXECUTE FUNCTION public.bowls_record_revision();
+
+DROP TRIGGER IF EXISTS bowl_finishes_record_revision ON bowl_finishes;
+CREATE TRIGGER bowl_finishes_record_revision
+  AFTER INSERT OR UPDATE OR DELETE ON bowl_finishes
+  FOR EACH ROW EXECUTE FUNCTION public.bowl_children_record_revision();
+
+DROP TRIGGER IF EXISTS bowl_images_record_revision ON bowl_images;
+CREATE TRIGGER bowl_images_record_revision
+  AFTER INSERT OR UPDATE OR DELETE ON bowl_images
+  FOR EACH ROW EXECUTE FUNCTION public.bowl_children_record_revision();
+
+-- Start every existing bowl's history with its current state
+INSERT INTO bowl_revisions (bowl_id, changed_at, user_id, snapshot)
+SELECT id, COALESCE(updated_at, created_at), user_id, public.bowl_revision_snapshot(id)
+FROM bowls
+WHERE NOT EXISTS (SELECT 1 FROM bowl_revisions WHERE bowl_revisions.bowl_id = bowls.id);
+
+-- Everyone can read history (like the bowls themselves); only the triggers write to it
+ALTER TABLE bowl_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Enable read access for all users" ON bowl_revisions;
+
+CREATE POLICY "Enable read access for all users" ON bowl_revisions
+  FOR SELECT USING (true);
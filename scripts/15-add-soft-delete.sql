@@ -0,0 +1,72 @@
+-- Soft delete for bowls
+-- Deleting a bowl sets deleted_at instead of removing the row, which moves it to its owner's trash.
+-- The app purges trashed bowls (and their image files) once the retention period has passed.
+
+ALTER TABLE bowls ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_bowls_deleted_at ON bowls(user_id, deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- Trashed bowls are only visible to their owner
+DROP POLICY IF EXISTS "Enable read access for all users" ON bowls;
+
+CREATE POLICY "Enable read access for all users" ON bowls
+  FOR SELECT USING (deleted_at IS NULL OR user_id = auth.uid());
+
+-- The grid view never shows trashed bowls. bowls.* gained a column, so the view has to be recreated.
+DROP VIEW IF EXISTS bowl_list;
+
+CREATE VIEW bowl_list
+WITH (security_invoker = true) AS
+SELECT
+  bowls.*,
+  COALESCE(profiles.full_name, profiles.email, 'Unknown') AS creator_name
+FROM bowls
+LEFT JOIN profiles ON profiles.id = bowls.user_id
+WHERE bowls.deleted_at IS NULL;
+
+GRANT SELECT ON bowl_list TO anon, authenticated;
+
+-- Same search as before, without trashed bowls
+CREATE OR REPLACE FUNCTION public.search_bowls(
+  search_text TEXT,
+  wood_filter TEXT DEFAULT NULL,
+  finish_filter TEXT DEFAULT NULL,
+  creator_filter UUID DEFAULT NULL,
+  date_from DATE DEFAULT NULL,
+  date_to DATE DEFAULT NULL,
+  result_limit INTEGER DEFAULT 24,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (bowl_id UUID, rank REAL, snippet TEXT, total_count BIGINT) AS $$
+  WITH search AS (
+    SELECT public.bowl_search_query(search_text) AS query
+  ),
+  matches AS (
+    SELECT
+      b.id,
+      b.date_made,
+      ts_rank_cd(b.search_vector, search.query) AS rank,
+      public.bowl_search_document(b) AS document
+    FROM bowls b, search
+    WHERE search.query IS NOT NULL
+      AND b.deleted_at IS NULL
+      AND b.search_vector @@ search.query
+      AND (wood_filter IS NULL OR b.wood_type ILIKE '%' || wood_filter || '%')
+      AND (finish_filter IS NULL OR EXISTS (
+        SELECT 1 FROM bowl_finishes f
+        WHERE f.bowl_id = b.id AND f.finish_name ILIKE '%' || finish_filter || '%'
+      ))
+      AND (creator_filter IS NULL OR b.user_id = creator_filter)
+      AND (date_from IS NULL OR b.date_made >= date_from)
+      AND (date_to IS NULL OR b.date_made <= date_to)
+  )
+  SELECT
+    matches.id,
+    matches.rank,
+    ts_headline('english', matches.document, search.query,
+      format('StartSel=%s, StopSel=%s, MaxWords=25, MinWords=8, MaxFragments=2', chr(2), chr(3))),
+    count(*) OVER ()
+  FROM matches, search
+  ORDER BY matches.rank DESC, matches.date_made DESC
+  LIMIT result_limit OFFSET result_offset
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,5 @@
+-- Per-user photo privacy setting
+-- GPS, serial number and owner EXIF fields are always removed before upload. This controls whether
+-- the capture date and camera model read from a photo are stored with the image record.
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS keep_capture_details BOOLEAN NOT NULL DEFAULT TRUE;
@@ -0,0 +1,57 @@
+-- Search filter fixes
+-- The wood and finish filters were used as LIKE patterns as typed, so % and _ acted as wildcards.
+-- The search refresh triggers run as their owner and now pin search_path like the other definer functions.
+
+-- Escape LIKE wildcards so filter text is matched literally (backslash is the default escape character)
+CREATE OR REPLACE FUNCTION public.escape_like(value TEXT)
+RETURNS TEXT AS $$
+  SELECT replace(replace(replace(value, '\', '\\'), '%', '\%'), '_', '\_');
+$$ LANGUAGE sql IMMUTABLE;
+
+ALTER FUNCTION public.refresh_bowl_search_from_finishes() SET search_path = public;
+ALTER FUNCTION public.refresh_bowl_search_from_profiles() SET search_path = public;
+
+-- Same search as before, with the filters matched literally
+CREATE OR REPLACE FUNCTION public.search_bowls(
+  search_text TEXT,
+  wood_filter TEXT DEFAULT NULL,
+  finish_filter TEXT DEFAULT NULL,
+  creator_filter UUID DEFAULT NULL,
+  date_from DATE DEFAULT NULL,
+  date_to DATE DEFAULT NULL,
+  result_limit INTEGER DEFAULT 24,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (bowl_id UUID, rank REAL, snippet TEXT, total_count BIGINT) AS $$
+  WITH search AS (
+    SELECT public.bowl_search_query(search_text) AS query
+  ),
+  matches AS (
+    SELECT
+      b.id,
+      b.date_made,
+      ts_rank_cd(b.search_vector, search.query) AS rank,
+      public.bowl_search_document(b) AS document
+    FROM bowls b, search
+    WHERE search.query IS NOT NULL
+      AND b.deleted_at IS NULL
+      AND b.search_vector @@ search.query
+      AND (wood_filter IS NULL OR b.wood_type ILIKE '%' || public.escape_like(wood_filter) || '%')
+      AND (finish_filter IS NULL OR EXISTS (
+        SELECT 1 FROM bowl_finishes f
+        WHERE f.bowl_id = b.id AND f.finish_name ILIKE '%' || public.escape_like(finish_filter) || '%'
+      ))
+      AND (creator_filter IS NULL OR b.user_id = creator_filter)
+      AND (date_from IS NULL OR b.date_made >= date_from)
+      AND (date_to IS NULL OR b.date_made <= date_to)
+  )
+  SELECT
+    matches.id,
+    matches.rank,
+    ts_headline('english', matches.document, search.query,
+      format('StartSel=%s, StopSel=%s, MaxWords=25, MinWords=8, MaxFragments=2', chr(2), chr(3))),
+    count(*) OVER ()
+  FROM matches, search
+  ORDER BY matches.rank DESC, matches.date_made DESC
+  LIMIT result_limit OFFSET result_offset
+$$ LANGUAGE sql STABLE;
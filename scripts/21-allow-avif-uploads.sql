@@ -0,0 +1,9 @@
+-- Allow AVIF uploads
+-- The bucket only accepts the types listed in 06-fix-storage-policies.sql, which didn't include AVIF,
+-- so every AVIF copy of an image was rejected.
+
+UPDATE storage.buckets
+SET allowed_mime_types = array_append(allowed_mime_types, 'image/avif')
+WHERE id = 'bowl-images'
+  AND allowed_mime_types IS NOT NULL
+  AND NOT ('image/avif' = ANY(allowed_mime_types));
@@ -0,0 +1,173 @@
+-- Keep images removed from a bowl while its revision history still shows them
+-- save_bowl used to delete removed images and their files on the spot, so restoring an earlier
+-- revision couldn't bring them back. Removed images that a revision refers to now move to
+-- removed_bowl_images with their files kept, and save_bowl moves them back when they are listed again.
+-- They go for good when the bowl is purged from the trash; the storage cleanup counts their files as in use.
+
+-- Same columns as bowl_images (in the same order), so rows can move between the two
+CREATE TABLE IF NOT EXISTS removed_bowl_images (
+  LIKE bowl_images INCLUDING DEFAULTS,
+  PRIMARY KEY (id),
+  FOREIGN KEY (bowl_id) REFERENCES bowls(id) ON DELETE CASCADE
+);
+
+CREATE INDEX IF NOT EXISTS idx_removed_bowl_images_bowl_id ON removed_bowl_images(bowl_id);
+
+-- Only the bowl's owner sees or changes its removed images (through save_bowl)
+ALTER TABLE removed_bowl_images ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Enable read access for bowl owners only" ON removed_bowl_images;
+DROP POLICY IF EXISTS "Enable insert for bowl owners only" ON removed_bowl_images;
+DROP POLICY IF EXISTS "Enable delete for bowl owners only" ON removed_bowl_images;
+
+CREATE POLICY "Enable read access for bowl owners only" ON removed_bowl_images
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM bowls
+      WHERE bowls.id = removed_bowl_images.bowl_id
+      AND bowls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Enable insert for bowl owners only" ON removed_bowl_images
+  FOR INSERT WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM bowls
+      WHERE bowls.id = removed_bowl_images.bowl_id
+      AND bowls.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Enable delete for bowl owners only" ON removed_bowl_images
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM bowls
+      WHERE bowls.id = removed_bowl_images.bowl_id
+      AND bowls.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.save_bowl(
+  p_bowl_id UUID,
+  p_fields JSONB,
+  p_finishes TEXT[],
+  p_images JSONB,
+  p_create BOOLEAN DEFAULT FALSE,
+  p_stage TEXT DEFAULT NULL,
+  p_stage_note TEXT DEFAULT NULL,
+  p_expected_updated_at TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS TEXT[] AS $$
+DECLARE
+  removed_paths TEXT[];
+BEGIN
+  IF p_create THEN
+    INSERT INTO bowls (id, wood_type, wood_source, date_made, comments, user_id, current_stage, dried_at)
+    VALUES (
+      p_bowl_id,
+      p_fields->>'wood_type',
+      p_fields->>'wood_source',
+      (p_fields->>'date_made')::DATE,
+      NULLIF(p_fields->>'comments', ''),
+      auth.uid(),
+      COALESCE(p_stage, 'finished'),
+      (p_fields->>'dried_at')::DATE
+    );
+  ELSE
+    -- Only update the version the editor loaded; RLS hides other users' bowls, so a missing row
+    -- with no conflict also covers "not yours". Bowls in the trash can't be edited.
+    UPDATE bowls SET
+      wood_type = p_fields->>'wood_type',
+      wood_source = p_fields->>'wood_source',
+      date_made = (p_fields->>'date_made')::DATE,
+      comments = NULLIF(p_fields->>'comments', ''),
+      current_stage = COALESCE(p_stage, current_stage),
+      dried_at = CASE WHEN p_fields ? 'dried_at' THEN (p_fields->>'dried_at')::DATE ELSE dried_at END
+    WHERE id = p_bowl_id
+      AND deleted_at IS NULL
+      AND (p_expected_updated_at IS NULL OR updated_at = p_expected_updated_at);
+
+    IF NOT FOUND THEN
+      IF p_expected_updated_at IS NOT NULL AND EXISTS (
+        SELECT 1 FROM bowls WHERE id = p_bowl_id AND user_id = auth.uid() AND deleted_at IS NULL
+      ) THEN
+        RAISE EXCEPTION 'Bowl % was changed by someone else', p_bowl_id USING ERRCODE = '40001';
+      END IF;
+      RAISE EXCEPTION 'Bowl % not found or you do not own it', p_bowl_id USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  -- Stage history: the starting stage for new bowls, or a transition when editing
+  IF p_stage IS NOT NULL THEN
+    INSERT INTO bowl_stages (bowl_id, stage, note, user_id)
+    VALUES (p_bowl_id, p_stage, NULLIF(p_stage_note, ''), auth.uid());
+  END IF;
+
+  -- Finishes: only remove and add what changed
+  DELETE FROM bowl_finishes
+  WHERE bowl_id = p_bowl_id AND finish_name <> ALL (COALESCE(p_finishes, '{}'));
+
+  INSERT INTO bowl_finishes (bowl_id, finish_name)
+  SELECT DISTINCT p_bowl_id, finish_name
+  FROM unnest(COALESCE(p_finishes, '{}')) AS finish_name
+  ON CONFLICT (bowl_id, finish_name) DO NOTHING;
+
+  -- Images: move back removed ones that are listed again (e.g. restoring a revision)
+  WITH restored AS (
+    DELETE FROM removed_bowl_images
+    WHERE bowl_id = p_bowl_id
+      AND id IN (
+        SELECT (value->>'id')::UUID FROM jsonb_array_elements(p_images) WHERE value ? 'id'
+      )
+    RETURNING *
+  )
+  INSERT INTO bowl_images SELECT * FROM restored;
+
+  -- Take out the ones no longer listed. Those a revision shows are set aside with their files;
+  -- the files of the rest are collected for cleanup.
+  WITH removed AS (
+    DELETE FROM bowl_images
+    WHERE bowl_id = p_bowl_id
+      AND id NOT IN (
+        SELECT (value->>'id')::UUID FROM jsonb_array_elements(p_images) WHERE value ? 'id'
+      )
+    RETURNING *
+  ), kept AS (
+    INSERT INTO removed_bowl_images
+    SELECT * FROM removed
+    WHERE EXISTS (
+      SELECT 1 FROM bowl_revisions
+      WHERE bowl_revisions.bowl_id = p_bowl_id AND bowl_revisions.snapshot->'images' ? removed.id::TEXT
+    )
+    RETURNING id
+  )
+  SELECT COALESCE(array_agg(DISTINCT path) FILTER (WHERE path IS NOT NULL), '{}')
+  INTO removed_paths
+  FROM removed, unnest(
+    ARRAY[storage_path]
+    || ARRAY(SELECT variant->>'path' FROM jsonb_array_elements(removed.variants) AS variant)
+  ) AS path
+  WHERE removed.id NOT IN (SELECT id FROM kept);
+
+  -- Reorder the images that are kept
+  UPDATE bowl_images SET display_order = img.ord - 1
+  FROM jsonb_array_elements(p_images) WITH ORDINALITY AS img(value, ord)
+  WHERE img.value ? 'id'
+    AND bowl_images.id = (img.value->>'id')::UUID
+    AND bowl_images.bowl_id = p_bowl_id;
+
+  -- Insert the new images at their positions
+  INSERT INTO bowl_images (
+    bowl_id, image_url, storage_path, variants,
+    file_size, original_dimensions, captured_at, camera_model, display_order
+  )
+  SELECT
+    p_bowl_id, r.image_url, r.storage_path, COALESCE(r.variants, '[]'),
+    r.file_size, r.original_dimensions, r.captured_at, r.camera_model, img.ord - 1
+  FROM jsonb_array_elements(p_images) WITH ORDINALITY AS img(value, ord),
+    jsonb_populate_record(NULL::bowl_images, img.value) AS r
+  WHERE NOT img.value ? 'id';
+
+  RETURN removed_paths;
+END;
+$$ LANGUAGE plpgsql SECURITY INVOKER;
@@ -0,0 +1,150 @@
+// Storage reconciliation for the bowl-images bucket, run by an administrator with the service role key.
+// Lists the top-level bowls/ folders and reports every folder whose bowl no longer has a row (left behind
+// when a bowl is deleted outright), with a size summary. Nothing is removed unless --delete is passed.
+// Files of bowls that still exist are checked per user on the Admin page instead.
+//
+// Usage: node --env-file=.env.local scripts/reconcile-storage.mjs [--delete]
+// Needs NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (see app/env.example).
+
+import { createClient } from "@supabase/supabase-js"
+
+const BUCKET = "bowl-images"
+const ROOT = "bowls"
+
+const LIST_PAGE_SIZE = 1000
+const ID_BATCH_SIZE = 100
+const DELETE_BATCH_SIZE = 100
+
+// Files younger than this are left alone: a new bowl's images are uploaded before its row is saved
+const GRACE_PERIOD_MS = 60 * 60 * 1000
+
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+if (!url || !serviceRoleKey) {
+  console.error("Set NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY to run the reconciliation")
+  process.exit(1)
+}
+
+const dryRun = !process.argv.includes("--delete")
+
+// The service role bypasses RLS, so every user's bowls and files are visible
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } })
+
+const formatSize = (bytes) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+// One page after another of the entries directly below `prefix`; folders come back without an id
+async function listEntries(prefix) {
+  const entries = []
+
+  for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+    const { data, error } = await supabase.storage
+      .from(BUCKET)
+      .list(prefix, { limit: LIST_PAGE_SIZE, offset, sortBy: { column: "name", order: "asc" } })
+
+    if (error) {
+      throw new Error(`Failed to list ${prefix}: ${error.message}`)
+    }
+
+    entries.push(...data)
+    if (data.length < LIST_PAGE_SIZE) return entries
+  }
+}
+
+// Every file below `prefix`, however deeply nested
+async function listFiles(prefix) {
+  const files = []
+
+  for (const entry of await listEntries(prefix)) {
+    const path = `${prefix}/${entry.name}`
+    if (entry.id === null) {
+      files.push(...(await listFiles(path)))
+    } else {
+      files.push({ path, size: Number(entry.metadata?.size ?? 0), createdAt: entry.created_at ?? null })
+    }
+  }
+
+  return files
+}
+
+// Which of the folder names still have a bowls row, including bowls in the trash
+async function getExistingBowlIds(folderNames) {
+  const existing = new Set()
+
+  for (let i = 0; i < folderNames.length; i += ID_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from("bowls")
+      .select("id")
+      .in("id", folderNames.slice(i, i + ID_BATCH_SIZE))
+
+    if (error) {
+      throw new Error(`Failed to load bowls: ${error.message}`)
+    }
+    data.forEach((bowl) => existing.add(bowl.id))
+  }
+
+  return existing
+}
+
+async function reconcile() {
+  console.log(`Listing ${BUCKET}/${ROOT}...`)
+  const folderNames = (await listEntries(ROOT)).filter((entry) => entry.id === null).map((entry) => entry.name)
+
+  // Folder names that aren't UUIDs can never match a row, and would make the ID filter fail
+  const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  const existing = await getExistingBowlIds(folderNames.filter((name) => uuidPattern.test(name)))
+  const orphanedFolders = folderNames.filter((name) => !existing.has(name))
+
+  console.log(`${folderNames.length} bowl folders, ${orphanedFolders.length} without a bowl`)
+
+  const cutoff = Date.now() - GRACE_PERIOD_MS
+  const orphans = []
+  let recentSkipped = 0
+
+  for (const folder of orphanedFolders) {
+    const files = await listFiles(`${ROOT}/${folder}`)
+    const old = files.filter((file) => !file.createdAt || new Date(file.createdAt).getTime() <= cutoff)
+    recentSkipped += files.length - old.length
+
+    if (old.length > 0) {
+      const bytes = old.reduce((sum, file) => sum + file.size, 0)
+      console.log(`  ${ROOT}/${folder}: ${old.length} files (${formatSize(bytes)})`)
+      orphans.push(...old)
+    }
+  }
+
+  const orphanBytes = orphans.reduce((sum, file) => sum + file.size, 0)
+  console.log(`Orphaned: ${orphans.length} files (${formatSize(orphanBytes)})`)
+  if (recentSkipped > 0) {
+    console.log(`Skipped ${recentSkipped} files from the last hour`)
+  }
+
+  if (dryRun) {
+    if (orphans.length > 0) console.log("Dry run: nothing was deleted. Run again with --delete to remove them.")
+    return
+  }
+
+  let deleted = 0
+  for (let i = 0; i < orphans.length; i += DELETE_BATCH_SIZE) {
+    const batch = orphans.slice(i, i + DELETE_BATCH_SIZE).map((file) => file.path)
+    const { data, error } = await supabase.storage.from(BUCKET).remove(batch)
+
+    if (error) {
+      console.error("Error deleting orphaned files:", error.message)
+    } else {
+      deleted += data.length
+    }
+  }
+
+  console.log(`Deleted ${deleted} of ${orphans.length} files`)
+  if (deleted < orphans.length) process.exitCode = 1
+}
+
+reconcile().catch((error) => {
+  console.error(error instanceof Error ? error.message : error)
+  process.exit(1)
+})